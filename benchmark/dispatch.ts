@@ -0,0 +1,137 @@
+import "reflect-metadata";
+import {Action, Application, ApplicationOptions, Controller, createExecutor, Method, NodeHttpDriver, Param, Params} from "../src";
+import {Endpoint} from "../src/Endpoint";
+import {MethodMetadata} from "../src/metadata/MethodMetadata";
+import {MethodParamsHandler} from "../src/MethodParamsHandler";
+
+/**
+ * Measures how many JSON-RPC requests per second the application executes with a few hundred registered methods.
+ * Requests are executed with Application.handle, so transport overhead isn't measured.
+ * Every case is measured with the baseline application too, which dispatches requests the way it was done
+ * before the dispatch table and compiled params resolvers.
+ *
+ * Run it with: npm run benchmark
+ */
+
+const controllersCount = 30;
+const methodsCount = 10;
+const duration = 1000;
+
+/**
+ * Controller class built at runtime, its methods are assigned to the prototype by their names.
+ */
+interface ControllerClass {
+    new (): { [method: string]: Function };
+    prototype: { [method: string]: Function };
+}
+
+/**
+ * Endpoint which finds methods with a linear search among all its methods on every request.
+ */
+class LinearEndpoint extends Endpoint {
+
+    findMethod(name: string): MethodMetadata | undefined {
+        const methods = this.methods.filter(method => !method.subscription);
+        return methods.find(method => method.fullName === name)
+            || methods.find(method => method.fullName instanceof RegExp && method.fullName.test(name));
+    }
+}
+
+/**
+ * Application which finds methods with a linear search, and sorts and resolves method params on every call.
+ */
+class BaselineApplication extends Application<NodeHttpDriver> {
+
+    private baselineParamsHandler: MethodParamsHandler<NodeHttpDriver>;
+    private linearEndpoint: LinearEndpoint;
+
+    constructor(driver: NodeHttpDriver, options: ApplicationOptions) {
+        super(driver, options);
+        this.baselineParamsHandler = new MethodParamsHandler(driver);
+        this.linearEndpoint = new LinearEndpoint("");
+    }
+
+    protected getEndpoint(route?: string): Endpoint {
+        return this.linearEndpoint;
+    }
+
+    protected addToDispatchTable(method: MethodMetadata): void {
+        super.addToDispatchTable(method);
+        this.linearEndpoint.add(method);
+        method.paramsResolver = (action: Action) => Promise.all(method.params
+            .sort((param1, param2) => param1.index - param2.index)
+            .map(param => this.baselineParamsHandler.handle(action, param)));
+    }
+}
+
+/**
+ * Registers controllers with synchronous and asynchronous methods which take params by their names and positions.
+ */
+function createControllers(): Function[] {
+    const controllers: Function[] = [];
+    for (let c = 0; c < controllersCount; c++) {
+        const controller: ControllerClass = class {
+            [method: string]: Function;
+        };
+        for (let m = 0; m < methodsCount; m++) {
+            controller.prototype["add" + m] = function (a: number, b: number) {
+                return a + b;
+            };
+            Method("add" + m)(controller.prototype, "add" + m);
+            Param("a")(controller.prototype, "add" + m, 0);
+            Param("b")(controller.prototype, "add" + m, 1);
+
+            controller.prototype["echo" + m] = function (params: any) {
+                return Promise.resolve(params);
+            };
+            Method("echo" + m)(controller.prototype, "echo" + m);
+            Params()(controller.prototype, "echo" + m, 0);
+        }
+        Controller("controller" + c)(controller);
+        controllers.push(controller);
+    }
+    return controllers;
+}
+
+/**
+ * Executes given payload repeatedly for the benchmark duration and returns executed requests per second.
+ */
+async function measure(app: Application<NodeHttpDriver>, payload: any): Promise<number> {
+    const requests = payload instanceof Array ? payload.length : 1;
+    const start = Date.now();
+    let count = 0;
+    while (Date.now() - start < duration) {
+        for (let i = 0; i < 100; i++)
+            await app.handle(payload);
+        count += 100 * requests;
+    }
+    return Math.round(count / (Date.now() - start) * 1000);
+}
+
+async function run() {
+    const driver = new NodeHttpDriver(require("http").createServer());
+    const options: ApplicationOptions = { controllers: createControllers(), development: false };
+    const app = createExecutor(driver, options);
+
+    // baseline application shares the driver configured by createExecutor, it's never attached to a server
+    const baseline = new BaselineApplication(driver, options).registerControllers(options.controllers as Function[]);
+
+    const last = `controller${controllersCount - 1}`;
+    const cases: Array<[string, any]> = [
+        ["first method, sync", { jsonrpc: "2.0", id: 1, method: "controller0.add0", params: { a: 1, b: 2 } }],
+        ["last method, sync", { jsonrpc: "2.0", id: 1, method: `${last}.add${methodsCount - 1}`, params: { a: 1, b: 2 } }],
+        ["last method, async", { jsonrpc: "2.0", id: 1, method: `${last}.echo${methodsCount - 1}`, params: { a: 1 } }],
+        ["batch of 10, sync", Array.from({ length: 10 }, (value, i) => ({ jsonrpc: "2.0", id: i, method: `${last}.add${i}`, params: { a: 1, b: 2 } }))],
+        ["unknown method", { jsonrpc: "2.0", id: 1, method: "unknown", params: [] }]
+    ];
+
+    console.log(`${controllersCount * methodsCount * 2} methods registered`);
+    for (const [name, payload] of cases)
+        console.log(`${name}: ${await measure(app, payload)} requests/s (baseline: ${await measure(baseline, payload)} requests/s)`);
+    console.log("note: unknown method case is dominated by creating MethodNotFoundError and capturing its stack trace");
+}
+
+run().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -8,6 +8,7 @@ const tslint = require("gulp-tslint");
 const stylish = require("tslint-stylish");
 const ts = require("gulp-typescript");
 const sourcemaps = require("gulp-sourcemaps");
+const mocha = require("gulp-mocha");
 @Gulpclass()
 export class Gulpfile {
 
@@ -139,7 +140,7 @@ export class Gulpfile {
      */
     @Task()
     tslint() {
-        return gulp.src(["./src/**/*.ts", "./test/**/*.ts", "./sample/**/*.ts"])
+        return gulp.src(["./src/**/*.ts", "./test/**/*.ts", "./sample/**/*.ts", "./benchmark/**/*.ts"])
             .pipe(tslint())
             .pipe(tslint.report(stylish, {
                 emitError: true,
@@ -148,4 +149,24 @@ export class Gulpfile {
             }));
     }
 
+    /**
+     * Runs unit and functional tests.
+     */
+    @Task()
+    mocha() {
+        return gulp.src(["./test/**/*.spec.ts"], { read: false })
+            .pipe(mocha({
+                require: ["ts-node/register"],
+                timeout: 10000
+            }));
+    }
+
+    /**
+     * Compiles and lints the package, then runs all tests.
+     */
+    @SequenceTask()
+    tests() {
+        return ["package", "mocha"];
+    }
+
 }
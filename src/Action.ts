@@ -6,19 +6,55 @@ export interface Action {
     /**
      * Method Request object.
      */
-    request: any;
+    request?: any;
 
     /**
      * Method Response object.
      */
-    response: any;
+    response?: any;
 
     /**
      * Content in which method is executed.
-     * Koa-specific property.
+     * Koa context or any context object given to the Application.handle.
      */
     context?: any;
 
+    /**
+     * JSON-RPC request object being executed.
+     * In the case of batch request it's a single call object from the batch.
+     */
+    payload?: any;
+
+    /**
+     * Route of the endpoint the request is sent to, relative to the route prefix.
+     * Only methods served on this route are executed. Methods of the default endpoint are executed if it's not set.
+     */
+    route?: string;
+
+    /**
+     * Action given by the driver for the whole request, which actions of the single calls are created from.
+     * Calls of the same batch share it, so it can be used to cache anything per request.
+     */
+    requestAction?: Action;
+
+    /**
+     * Indicates if executed call is a notification.
+     * Notification is executed as any other call, but its result or error is not responded.
+     */
+    notification?: boolean;
+
+    /**
+     * Connection which request came through.
+     * Persistent transports (like WebSocket) specific property.
+     */
+    connection?: any;
+
+    /**
+     * Sends given JSON-RPC payload over the connection, used to push server-initiated notifications.
+     * Persistent transports (like WebSocket) specific property.
+     */
+    send?: (payload: any) => void;
+
     /**
      * "Next" function used to call next middleware.
      */
@@ -0,0 +1,19 @@
+/**
+ * Options of the method registered at runtime with Application.addMethod.
+ */
+export interface AddMethodOptions {
+
+    /**
+     * Names of the handler arguments request params are mapped onto: by their positions if params are an array,
+     * or by names if params are an object. Names ending with "?" are optional.
+     * If names aren't given, handler takes the whole params as the first argument.
+     * Action is passed to the handler after the params.
+     */
+    params?: string[];
+
+    /**
+     * Route of the endpoint which serves the method. By default method is served on the default endpoint.
+     */
+    route?: string;
+
+}
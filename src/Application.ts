@@ -1,11 +1,32 @@
 import {BaseDriver} from "./driver/BaseDriver";
 import {isPromiseLike} from "./helpers/isPromiseLike";
+import {whenResolved} from "./helpers/whenResolved";
+import {normalizeRoute} from "./helpers/normalizeRoute";
+import {Endpoint} from "./Endpoint";
+import {AddMethodOptions} from "./AddMethodOptions";
 import {MethodParamsHandler} from "./MethodParamsHandler";
 import {MetadataBuilder} from "./metadata-builder/MetadataBuilder";
 import {MethodMetadata} from "./metadata/MethodMetadata";
 import {Action} from "./Action";
 import {ApplicationOptions} from "./ApplicationOptions";
 import {MethodNotFoundError} from "./rpc-error/MethodNotFoundError";
+import {InvalidRequestError} from "./rpc-error/InvalidRequestError";
+import {InvalidParamsError} from "./rpc-error/InvalidParamsError";
+import {ServerError} from "./rpc-error/ServerError";
+import {SubscriptionPublisher} from "./subscription/SubscriptionPublisher";
+import {getFromContainer} from "./container";
+import {isNotification} from "./helpers/isNotification";
+import {isRequestId} from "./helpers/isRequestId";
+import {validateRequest} from "./helpers/validateRequest";
+import {OpenRpcGenerator} from "./openrpc/OpenRpcGenerator";
+import {OpenRpcDocument, OpenRpcInfo} from "./openrpc/OpenRpcDocument";
+import {MiddlewareInterface} from "./middleware/MiddlewareInterface";
+import {ErrorHandlerInterface} from "./error-handler/ErrorHandlerInterface";
+import {ErrorHandlerMetadata} from "./metadata/ErrorHandlerMetadata";
+import {RpcError} from "./rpc-error/RpcError";
+import {InternalError} from "./rpc-error/InternalError";
+import {AuthorizationRequiredError} from "./rpc-error/AuthorizationRequiredError";
+import {AccessDeniedError} from "./rpc-error/AccessDeniedError";
 
 export class Application<T extends BaseDriver> {
 
@@ -23,6 +44,35 @@ export class Application<T extends BaseDriver> {
      */
     private metadataBuilder: MetadataBuilder;
 
+    /**
+     * Methods of all registered controllers.
+     */
+    private methods: MethodMetadata[] = [];
+
+    /**
+     * Endpoints by their routes. Default endpoint has an empty route and serves methods of controllers without route,
+     * it's used for requests sent to routes of no other endpoint.
+     */
+    private endpoints = new Map<string, Endpoint>();
+
+    /**
+     * Global middlewares applied to all methods.
+     */
+    private middlewares: Function[] = [];
+
+    /**
+     * Global error handlers sorted by their priority.
+     */
+    private errorHandlers: ErrorHandlerMetadata[] = [];
+
+    /**
+     * Reserved methods handled by the application itself, e.g. "rpc.on".
+     */
+    private reservedMethods: { [name: string]: (action: Action) => Promise<any> } = {
+        "rpc.on": action => this.executeSubscribe(action),
+        "rpc.off": action => this.executeUnsubscribe(action)
+    };
+
     // -------------------------------------------------------------------------
     // Constructor
     // -------------------------------------------------------------------------
@@ -30,6 +80,10 @@ export class Application<T extends BaseDriver> {
     constructor(private driver: T, private options: ApplicationOptions) {
         this.paramsHandler = new MethodParamsHandler(driver);
         this.metadataBuilder = new MetadataBuilder(options);
+        this.endpoints.set("", new Endpoint(""));
+
+        if (options.discovery)
+            this.reservedMethods["rpc.discover"] = action => this.executeDiscover(action);
     }
 
     // -------------------------------------------------------------------------
@@ -44,49 +98,320 @@ export class Application<T extends BaseDriver> {
         return this;
     }
 
+    /**
+     * Registers given middlewares as global ones, so they are applied to all methods.
+     */
+    registerMiddlewares(classes?: Function[]): this {
+        if (classes)
+            this.middlewares.push(...classes);
+
+        return this;
+    }
+
+    /**
+     * Registers given error handlers as global ones, so they handle errors of all methods.
+     * If classes aren't given then all error handlers registered with @RpcErrorHandler decorator are used.
+     */
+    registerErrorHandlers(classes?: Function[]): this {
+        this.errorHandlers = this.metadataBuilder.buildErrorHandlerMetadata(classes);
+        return this;
+    }
+
     /**
      * Registers all given controllers and methods from those controllers.
      */
     registerControllers(classes?: Function[]): this {
-        const methods: MethodMetadata[] = [];
         const controllers = this.metadataBuilder.buildControllerMetadata(classes);
         controllers.forEach(controller => {
-            methods.push(...controller.methods);
+            controller.methods.forEach(method => this.addToDispatchTable(method));
         });
-        this.driver.registerMethod(methods, (error: any, options: Action, methodMetadata?: MethodMetadata) => {
+        this.driver.checkParams(this.methods);
+        this.driver.registerMethod(this.methods, (error: any, action: Action, payload?: any) => {
             if (error) {
-                return this.driver.handleError(error, options);
+                return this.handleError(error, action);
             }
-            return this.executeMethod(methodMetadata, options);
+            return this.handle(payload, action);
         });
         this.driver.registerRoutes();
         return this;
     }
 
+    /**
+     * Registers method with the given name which executes given handler function, it can be done after server start.
+     * Handler takes request params (mapped onto arguments if their names are given in options) followed by the action.
+     */
+    addMethod(name: string | RegExp, handler: (...args: any[]) => any, options?: AddMethodOptions): MethodMetadata {
+        const method = this.metadataBuilder.buildHandlerMethodMetadata(name, handler, options);
+        this.driver.checkParams([method]);
+        this.addToDispatchTable(method);
+        return method;
+    }
+
+    /**
+     * Removes given method, or method with the given exact name served on the endpoint with the given route.
+     * Returns false if there is no such method.
+     */
+    removeMethod(method: string | MethodMetadata, route?: string): boolean {
+        const endpoint = method instanceof MethodMetadata
+            ? this.endpoints.get(method.controllerMetadata.route)
+            : this.endpoints.get(normalizeRoute(route || ""));
+        if (endpoint && typeof method === "string")
+            method = endpoint.getMethod(method);
+
+        if (!endpoint || !method || this.methods.indexOf(method as MethodMetadata) === -1)
+            return false;
+
+        endpoint.remove(method as MethodMetadata);
+        this.methods.splice(this.methods.indexOf(method as MethodMetadata), 1);
+        return true;
+    }
+
+    /**
+     * Replaces method with the given exact name with the one which executes given handler function.
+     * Requests being executed finish with the previous method. Method is added if there is no method to replace.
+     */
+    replaceMethod(name: string, handler: (...args: any[]) => any, options?: AddMethodOptions): MethodMetadata {
+        const endpoint = this.endpoints.get(normalizeRoute((options && options.route) || ""));
+        const method = endpoint ? endpoint.getMethod(name) : undefined;
+        if (!method)
+            return this.addMethod(name, handler, options);
+
+        const replacement = this.metadataBuilder.buildHandlerMethodMetadata(name, handler, options);
+        this.driver.checkParams([replacement]);
+        replacement.paramsResolver = this.paramsHandler.compile(replacement);
+        endpoint.replace(method, replacement);
+        this.methods[this.methods.indexOf(method)] = replacement;
+        return replacement;
+    }
+
+    /**
+     * Handles given JSON-RPC request payload (a single request object or a batch) and resolves to the response payload.
+     * Nothing is resolved if there is nothing to respond, e.g. payload consists of notifications only.
+     * Given context is passed to the controller methods as an action, so it can carry any transport specific objects.
+     */
+    handle(payload: any, context: Action = {}): Promise<any> {
+        if (payload instanceof Array)
+            return this.executeBatch(payload, context);
+
+        return this.executeRequest(payload, context);
+    }
+
+    /**
+     * Generates OpenRPC document which describes all methods of the endpoint with the given route,
+     * by default methods of the default endpoint.
+     */
+    getOpenRpcDocument(info?: OpenRpcInfo, route?: string): OpenRpcDocument {
+        if (!info)
+            info = this.options.discovery instanceof Object
+                ? this.options.discovery as OpenRpcInfo
+                : { title: "JSON-RPC API", version: "1.0.0" };
+
+        return new OpenRpcGenerator().generate(this.getEndpoint(route).methods, info);
+    }
+
+    /**
+     * Gets publisher of the endpoint with the given route, by default of the default endpoint,
+     * which publishes events to the subscribers of its topics.
+     */
+    getPublisher(route?: string): SubscriptionPublisher {
+        const normalizedRoute = route ? normalizeRoute(route) : "";
+        if (!this.endpoints.has(normalizedRoute))
+            this.endpoints.set(normalizedRoute, new Endpoint(normalizedRoute));
+
+        return this.endpoints.get(normalizedRoute).publisher;
+    }
+
+    /**
+     * Handles error occurred before request payload could be handled (e.g. payload parsing error)
+     * and resolves to the error response payload.
+     */
+    handleError(error: any, context: Action = {}): Promise<any> {
+        return this.createErrorResponse(error, context);
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Executes all calls of the given batch request and resolves to the array of their responses.
+     * Notifications are not responded, so nothing is resolved if batch consists of notifications only.
+     */
+    protected executeBatch(batch: any[], action: Action): Promise<any> {
+        if (batch.length === 0)
+            return this.createErrorResponse(new InvalidRequestError(), action);
+
+        const responses = batch.map(payload => this.executeRequest(payload, action));
+        return Promise.all(responses).then(responses => {
+            responses = responses.filter(response => response !== undefined);
+            return responses.length > 0 ? responses : undefined;
+        });
+    }
+
+    /**
+     * Executes a single call of the JSON-RPC request and resolves to its response.
+     */
+    protected executeRequest(payload: any, action: Action): Promise<any> {
+        let error: any = validateRequest(payload);
+        let method: MethodMetadata;
+        const reservedMethod = !error && this.reservedMethods.hasOwnProperty(payload.method) ? this.reservedMethods[payload.method] : undefined;
+        if (!error && !reservedMethod) {
+            method = this.getEndpoint(action.route).findMethod(payload.method);
+            if (!method)
+                error = new MethodNotFoundError();
+        }
+
+        // invalid request objects are always responded, even if they don't have an id
+        action = {
+            ...action,
+            requestAction: action.requestAction || action,
+            payload,
+            notification: !(error instanceof InvalidRequestError) && isNotification(payload)
+        };
+
+        let response: Promise<any>;
+        if (error) {
+            response = this.createErrorResponse(error, action);
+        } else if (reservedMethod) {
+            response = reservedMethod(action);
+        } else {
+            response = this.executeMethod(method, action);
+        }
+
+        // notifications are executed and their errors are handled, but nothing is responded
+        if (action.notification)
+            return response.then(() => undefined);
+
+        return response;
+    }
+
+    /**
+     * Gets endpoint with the given route, default endpoint is used if route isn't given.
+     * Routes of no endpoint get an empty endpoint, so their requests are responded with MethodNotFoundError.
+     */
+    protected getEndpoint(route?: string): Endpoint {
+        const normalizedRoute = route ? normalizeRoute(route) : "";
+        return this.endpoints.get(normalizedRoute) || new Endpoint(normalizedRoute);
+    }
+
+    /**
+     * Registers given method in the dispatch table of its endpoint and compiles resolver of its params.
+     */
+    protected addToDispatchTable(method: MethodMetadata): void {
+        method.paramsResolver = this.paramsHandler.compile(method);
+        this.methods.push(method);
+
+        const route = method.controllerMetadata.route;
+        if (!this.endpoints.has(route))
+            this.endpoints.set(route, new Endpoint(route));
+
+        this.endpoints.get(route).add(method);
+    }
+
     /**
      * Executes given controller method.
      */
-    protected executeMethod(methodMetadata: MethodMetadata, action: Action) {
+    protected executeMethod(methodMetadata: MethodMetadata, action: Action): Promise<any> {
+
+        // every step is executed synchronously unless previous one returned a promise,
+        // so synchronous methods are executed without promises allocated on every step
+        let response: any;
+        try {
 
-        // compute all params
-        const paramsPromises = methodMetadata.params
-            .sort((param1, param2) => param1.index - param2.index)
-            .map(param => this.paramsHandler.handle(action, param));
+            // check authorization first, then compute all params
+            response = whenResolved(this.checkAuthorization(methodMetadata, action), () => methodMetadata.paramsResolver(action));
 
-        // after all params are computed
-        return Promise.all(paramsPromises).then(params => {
+            // execute method unless "before" middleware responded instead of it, returned rpc error is responded as error
+            response = whenResolved(response, (params: any[]) => {
+                return whenResolved(this.executeBeforeMiddlewares(methodMetadata, action, params), result => {
+                    if (result instanceof RpcError)
+                        throw result;
 
-            // execute method and handle result
-            const result  = methodMetadata.callMethod(params);
-            return this.handleCallMethodResult(result, methodMetadata, action);
+                    return result !== undefined ? result : methodMetadata.callMethod(params, action);
+                });
+            });
 
-        }).catch(error => {
+            response = whenResolved(response, result => this.executeAfterMiddlewares(methodMetadata, action, result));
+            response = whenResolved(response, result => this.handleCallMethodResult(result, methodMetadata, action));
 
-            // otherwise simply handle error without method execution
-            return this.driver.handleError(error, action);
+        } catch (error) {
+            return this.createErrorResponse(error, action, methodMetadata);
+        }
+
+        // otherwise simply handle error without method execution
+        if (isPromiseLike(response))
+            return response.catch(error => this.createErrorResponse(error, action, methodMetadata));
+
+        return Promise.resolve(response);
+    }
+
+    /**
+     * Checks if request is authorized to execute the method marked with @Authorized decorator.
+     * Checker is called once with the roles required by the method. If it denies the request, rejects with
+     * AuthorizationRequiredError, or with AccessDeniedError if method requires roles.
+     * Error thrown by the checker (e.g. AuthorizationRequiredError for a request without a user) is responded as is.
+     */
+    protected checkAuthorization(method: MethodMetadata, action: Action): Promise<void> | void {
+        if (!method.isAuthorizedUsed)
+            return;
+
+        if (!this.options.authorizationChecker)
+            return Promise.reject(new InternalError("Cannot use @Authorized decorator without authorizationChecker option"));
+
+        return Promise.resolve(this.options.authorizationChecker(action, method.authorizedRoles)).then(isAuthorized => {
+            if (!isAuthorized)
+                throw method.authorizedRoles.length > 0 ? new AccessDeniedError() : new AuthorizationRequiredError();
         });
     }
 
+    /**
+     * Executes "before" hooks of the method middlewares in order: global, controller, then method ones.
+     * Resolves to the first result other than undefined returned by a middleware, remaining hooks are skipped then.
+     * Returned RpcError is responded as error instead of the method result.
+     */
+    protected executeBeforeMiddlewares(method: MethodMetadata, action: Action, params: any[]): Promise<any> | any {
+        return this.getMiddlewares(method, false).reduce((result, middleware) => {
+            return whenResolved(result, result => {
+                if (result !== undefined || !middleware.before)
+                    return result;
+
+                return middleware.before(action, method, params);
+            });
+        }, undefined);
+    }
+
+    /**
+     * Executes "after" hooks of the method middlewares in order: method, controller, then global ones.
+     * Each hook can replace the result by returning a value other than undefined.
+     */
+    protected executeAfterMiddlewares(method: MethodMetadata, action: Action, result: any): Promise<any> | any {
+        return this.getMiddlewares(method, true).reduce((result, middleware) => {
+            return whenResolved(result, result => {
+                if (!middleware.after)
+                    return result;
+
+                return whenResolved(middleware.after(action, method, result), newResult => {
+                    return newResult !== undefined ? newResult : result;
+                });
+            });
+        }, result);
+    }
+
+    /**
+     * Gets instances of the middlewares applied to the given method, in order of their execution.
+     */
+    protected getMiddlewares(method: MethodMetadata, afterAction: boolean): MiddlewareInterface[] {
+        const uses = afterAction
+            ? [...method.uses, ...method.controllerMetadata.uses]
+            : [...method.controllerMetadata.uses, ...method.uses];
+        const middlewares = uses
+            .filter(use => use.afterAction === afterAction)
+            .map(use => use.middleware);
+
+        return (afterAction ? [...middlewares, ...this.middlewares] : [...this.middlewares, ...middlewares])
+            .map(middleware => getFromContainer<MiddlewareInterface>(middleware));
+    }
+
     /**
      * Handles result of the method method execution.
      */
@@ -97,12 +422,178 @@ export class Application<T extends BaseDriver> {
                     return this.handleCallMethodResult(data, method, action);
                 })
                 .catch((error: any) => {
-                    return this.driver.handleError(error, action);
+                    return this.createErrorResponse(error, action, method);
                 });
         } else {
 
-            return this.driver.handleSuccess(result, method, action);
+            // if the method returned the response or the context object itself, short-circuits
+            if (result && (result === action.response || result === action.context))
+                return undefined;
+
+            return {
+                jsonrpc: "2.0",
+                id: action.payload.id,
+                result: this.driver.handleSuccess(result, method, action)
+            };
+        }
+    }
+
+    /**
+     * Executes reserved "rpc.on" method which subscribes the connection to the topic of the endpoint.
+     * Params are given by names ({topic, params}) or by positions ([topic, params]).
+     * Topic's subscription method is executed with the given subscription params before subscribe.
+     */
+    protected executeSubscribe(action: Action): Promise<any> {
+        const params = this.getReservedParams(action, ["topic", "params"]);
+        const endpoint = this.getEndpoint(action.route);
+        const method = endpoint.findTopic(params.topic);
+        if (!method)
+            return this.createErrorResponse(new InvalidParamsError(`Unknown topic "${params.topic}"`), action);
+
+        if (!action.connection || !action.send)
+            return this.createErrorResponse(new ServerError("Subscriptions are not supported by the transport"), action);
+
+        const topicAction: Action = {...action, payload: {...action.payload, method: params.topic, params: params.params}};
+        return this.executeMethod(method, topicAction).then(response => {
+            if (response && response.error)
+                return response;
+
+            return {
+                jsonrpc: "2.0",
+                id: action.payload.id,
+                result: endpoint.publisher.subscribe(params.topic, params.params, action.connection, action.send)
+            };
+        });
+    }
+
+    /**
+     * Executes reserved "rpc.off" method which removes subscription of the connection.
+     * Subscription id is given by name ({subscription}) or by position ([subscription]).
+     */
+    protected executeUnsubscribe(action: Action): Promise<any> {
+        const params = this.getReservedParams(action, ["subscription"]);
+        if (!action.connection)
+            return this.createErrorResponse(new ServerError("Subscriptions are not supported by the transport"), action);
+
+        return Promise.resolve({
+            jsonrpc: "2.0",
+            id: action.payload.id,
+            result: this.getEndpoint(action.route).publisher.unsubscribe(params.subscription, action.connection)
+        });
+    }
+
+    /**
+     * Gets params of the reserved method by their names, positional params are mapped onto the given names.
+     */
+    protected getReservedParams(action: Action, names: string[]): { [name: string]: any } {
+        const params = action.payload.params;
+        if (params instanceof Array)
+            return names.reduce((namedParams, name, index) => ({...namedParams, [name]: params[index]}), {});
+
+        return params instanceof Object ? params : {};
+    }
+
+    /**
+     * Executes reserved "rpc.discover" method which responds OpenRPC document of the application.
+     */
+    protected executeDiscover(action: Action): Promise<any> {
+        return Promise.resolve({
+            jsonrpc: "2.0",
+            id: action.payload.id,
+            result: this.getOpenRpcDocument(undefined, action.route)
+        });
+    }
+
+    /**
+     * Creates error response for the given error.
+     * If error is thrown by the method then its error handlers are used too.
+     * Never throws synchronously, anything thrown while the error is processed rejects the returned promise.
+     */
+    protected createErrorResponse(error: any, action: Action, method?: MethodMetadata): Promise<any> {
+        return new Promise(resolve => resolve(this.processError(this.normalizeError(error), action, method))).then(error => {
+            return {
+                jsonrpc: "2.0",
+                id: this.getResponseId(action),
+                error: error
+            };
+        });
+    }
+
+    /**
+     * Wraps thrown values which aren't objects (null, undefined, strings, numbers) into InternalError,
+     * so error handlers and drivers always get an object. Message of the thrown string is kept.
+     */
+    protected normalizeError(error: any): any {
+        if (error instanceof Object)
+            return error;
+
+        return new InternalError(typeof error === "string" ? error : undefined);
+    }
+
+    /**
+     * Passes error through the error handlers in order: method, controller, then global ones,
+     * and resolves to the error object to be responded.
+     * If no handler responded an error object then default error handler creates it.
+     */
+    protected processError(error: any, action: Action, method?: MethodMetadata): Promise<any> {
+        const errorHandlers: ErrorHandlerInterface[] = [
+            ...(method ? [...method.errorHandlers, ...method.controllerMetadata.errorHandlers] : [])
+                .map(errorHandler => getFromContainer<ErrorHandlerInterface>(errorHandler)),
+            ...this.errorHandlers.map(errorHandler => errorHandler.instance)
+        ];
+
+        const handle = (error: any, index: number): Promise<any> => {
+            if (index === errorHandlers.length)
+                return Promise.resolve(this.createErrorObject(error, action));
+
+            return new Promise(resolve => resolve(errorHandlers[index].error(error, action))).then(
+                result => {
+
+                    // anything other than an error is an error object to be responded, remaining handlers are skipped
+                    if (result instanceof Object && !(result instanceof Error))
+                        return result;
+
+                    return handle(result === undefined ? error : result, index + 1);
+                },
+                thrownError => handle(thrownError, index + 1));
+        };
+
+        return handle(error, 0);
+    }
+
+    /**
+     * Creates error object to be responded for the error which wasn't responded by error handlers.
+     * If default error handler is disabled then RpcError is responded with its code, message and own members
+     * (e.g. "errors" of InvalidParamsError) as data, but without stack, and any other error is responded as InternalError.
+     */
+    protected createErrorObject(error: any, action: Action): any {
+        if (this.driver.isDefaultErrorHandlingEnabled)
+            return this.driver.handleError(error, action);
+
+        if (!(error instanceof RpcError)) {
+            const internalError = new InternalError();
+            return { code: internalError.rpcCode, message: internalError.message };
+        }
+
+        const errorObject: any = { code: error.rpcCode, message: error.message };
+        const dataKeys = Object.keys(error).filter(key => ["stack", "name", "message", "rpcCode"].indexOf(key) === -1);
+        if (dataKeys.length > 0) {
+            errorObject.data = {};
+            dataKeys.forEach(key => errorObject.data[key] = (error as any)[key]);
         }
+        return errorObject;
+    }
+
+    /**
+     * Gets id of the request to be used in the response.
+     * If id can't be determined (e.g. request object is invalid) then null is used.
+     */
+    protected getResponseId(action: Action): string | number | null {
+        const payload = action.payload;
+        if (payload instanceof Object && isRequestId(payload.id))
+            return payload.id;
+
+        return null;
     }
 
-}
\ No newline at end of file
+}
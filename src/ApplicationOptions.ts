@@ -1,5 +1,8 @@
 import {ClassTransformOptions} from "class-transformer";
 import {ValidatorOptions} from "class-validator";
+import {OpenRpcInfo} from "./openrpc/OpenRpcDocument";
+import {Action} from "./Action";
+import {MetadataArgsStorage} from "./metadata-builder/MetadataArgsStorage";
 
 /**
  * Routing controller initialization options.
@@ -12,6 +15,12 @@ export interface ApplicationOptions {
      */
     cors?: boolean | Object;
 
+    /**
+     * Maximum size of the request body in bytes.
+     * By default it's 100kb for express and node http and 1mb for koa.
+     */
+    bodyLimit?: number;
+
     /**
      * Global route prefix, for example '/api'.
      */
@@ -22,6 +31,32 @@ export interface ApplicationOptions {
      */
     controllers?: Function[] | string[];
 
+    /**
+     * List of middlewares applied to all methods or directories from where to import all your middlewares.
+     * Both "before" and "after" hooks of global middlewares are executed.
+     */
+    middlewares?: Function[] | string[];
+
+    /**
+     * List of global error handlers or directories from where to import all your error handlers.
+     * By default all error handlers registered with @RpcErrorHandler decorator are used.
+     */
+    errorHandlers?: Function[] | string[];
+
+    /**
+     * Indicates if default error handler should be used.
+     * Default error handler responds all members of the error in the error data (and error stack in development mode).
+     * If it's disabled, only code and message of RpcError are responded, other errors are responded as InternalError.
+     */
+    defaultErrorHandler?: boolean;
+
+    /**
+     * Isolated metadata registry of the application, created with createRegistry function.
+     * Application only sees controllers and error handlers registered in it, so multiple applications
+     * can run in one process without sharing their methods. By default the global metadata storage is used.
+     */
+    registry?: MetadataArgsStorage;
+
     /**
      * Indicates if class-transformer should be used to perform serialization / deserialization.
      */
@@ -45,6 +80,38 @@ export interface ApplicationOptions {
      */
     validation?: boolean | ValidatorOptions;
 
+    /**
+     * Indicates if request params should be mapped onto method arguments which aren't marked with param decorators,
+     * so methods can take params like ordinary functions. Argument names are reflected from the method signature.
+     * Can be overridden for a single method with params option of the @Method decorator.
+     */
+    autoParams?: boolean;
+
+    /**
+     * Checks if request is authorized to execute methods marked with @Authorized decorator.
+     * Gets roles required by the method, and returns (or resolves to) true if request is authorized.
+     * It can throw AuthorizationRequiredError to tell requests without a user from requests denied the roles.
+     */
+    authorizationChecker?: (action: Action, roles: any[]) => Promise<boolean> | boolean;
+
+    /**
+     * Indicates if HTTP drivers should respond failed authorization of a single request (not a batch)
+     * with 401 (AuthorizationRequiredError) or 403 (AccessDeniedError) status instead of 200.
+     */
+    authorizationHttpStatus?: boolean;
+
+    /**
+     * Resolves current user of the request, which is injected into params marked with @CurrentUser decorator.
+     * Returns (or resolves to) the user, or undefined if request has no user.
+     */
+    currentUserChecker?: (action: Action) => Promise<any> | any;
+
+    /**
+     * Indicates if built-in "rpc.discover" method should be registered, which responds OpenRPC document of the api.
+     * You can also directly pass document info (title, version, etc.) to enable discovery with a given info.
+     */
+    discovery?: boolean | OpenRpcInfo;
+
     /**
      * Indicates if development mode is enabled.
      * By default its enabled if your NODE_ENV is not equal to "production".
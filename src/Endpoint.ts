@@ -0,0 +1,123 @@
+import {MethodMetadata} from "./metadata/MethodMetadata";
+import {SubscriptionPublisher} from "./subscription/SubscriptionPublisher";
+
+/**
+ * Methods served on the same route.
+ */
+export class Endpoint {
+
+    // -------------------------------------------------------------------------
+    // Public properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Methods served on this endpoint in order of their registration.
+     */
+    methods: MethodMetadata[] = [];
+
+    /**
+     * Keeps subscriptions to the topics of this endpoint and publishes events to them.
+     */
+    publisher = new SubscriptionPublisher();
+
+    // -------------------------------------------------------------------------
+    // Private properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Methods with exact names by their full names, the first registered method with the same name is used.
+     */
+    private dispatchTable = new Map<string, MethodMetadata>();
+
+    /**
+     * Methods with regexp or wildcard names in order of their registration.
+     */
+    private patternMethods: MethodMetadata[] = [];
+
+    /**
+     * Subscription methods by their topics.
+     */
+    private topics = new Map<string, MethodMetadata>();
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(public route: string) {
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Adds given method to the endpoint.
+     */
+    add(method: MethodMetadata): void {
+        this.methods.push(method);
+
+        if (method.subscription) {
+            if (typeof method.fullName === "string" && !this.topics.has(method.fullName))
+                this.topics.set(method.fullName, method);
+
+        } else if (method.fullName instanceof RegExp) {
+            this.patternMethods.push(method);
+
+        } else if (!this.dispatchTable.has(method.fullName)) {
+            this.dispatchTable.set(method.fullName, method);
+        }
+    }
+
+    /**
+     * Removes given method from the endpoint.
+     * Next registered method with the same name is used instead of it, if there is one.
+     */
+    remove(method: MethodMetadata): void {
+        this.methods.splice(this.methods.indexOf(method), 1);
+        this.patternMethods = this.patternMethods.filter(patternMethod => patternMethod !== method);
+
+        const table = method.subscription ? this.topics : this.dispatchTable;
+        if (typeof method.fullName === "string" && table.get(method.fullName) === method) {
+            table.delete(method.fullName);
+            const next = this.methods.find(next => next.subscription === method.subscription && next.fullName === method.fullName);
+            if (next)
+                table.set(method.fullName, next);
+        }
+    }
+
+    /**
+     * Replaces given method of the endpoint with another one, which takes its place in the registration order.
+     */
+    replace(method: MethodMetadata, replacement: MethodMetadata): void {
+        this.methods[this.methods.indexOf(method)] = replacement;
+        this.patternMethods = this.patternMethods.map(patternMethod => patternMethod === method ? replacement : patternMethod);
+
+        const table = method.subscription ? this.topics : this.dispatchTable;
+        if (typeof method.fullName === "string" && table.get(method.fullName) === method)
+            table.set(method.fullName, replacement);
+    }
+
+    /**
+     * Finds method with the given full name, regexp and wildcard names aren't matched.
+     */
+    getMethod(fullName: string): MethodMetadata | undefined {
+        return this.dispatchTable.get(fullName);
+    }
+
+    /**
+     * Finds method with the given name. Methods with exact names take precedence over methods with regexp
+     * or wildcard names, and the first registered method is found among them.
+     */
+    findMethod(name: string): MethodMetadata | undefined {
+        return this.dispatchTable.get(name)
+            || this.patternMethods.find(method => (method.fullName as RegExp).test(name));
+    }
+
+    /**
+     * Finds subscription method of the given topic.
+     */
+    findTopic(topic: string): MethodMetadata | undefined {
+        return this.topics.get(topic);
+    }
+
+}
@@ -1,16 +1,25 @@
 import { plainToClass } from "class-transformer";
+import { validate, ValidationError } from "class-validator";
 import { Action } from "./Action";
 import { BaseDriver } from "./driver/BaseDriver";
 import { ParamMetadata } from "./metadata/ParamMetadata";
+import { MethodMetadata } from "./metadata/MethodMetadata";
 import { isPromiseLike } from "./helpers/isPromiseLike";
-import {InvalidParamsError} from "./rpc-error/InvalidParamsError";
+import {InvalidParam, InvalidParamsError} from "./rpc-error/InvalidParamsError";
 import {InvalidRequestError} from "./rpc-error/InvalidRequestError";
+import {InternalError} from "./rpc-error/InternalError";
+import {AuthorizationRequiredError} from "./rpc-error/AuthorizationRequiredError";
 
 /**
  * Handles method params.
  */
 export class MethodParamsHandler<T extends BaseDriver> {
 
+    /**
+     * Current users resolved by the currentUserChecker, by the driver action of the request they are resolved for.
+     */
+    private currentUsers = new WeakMap<Action, Promise<any>>();
+
     constructor(private driver: T) {
     }
 
@@ -18,28 +27,120 @@ export class MethodParamsHandler<T extends BaseDriver> {
      * Handles method parameter.
      */
     handle(action: Action, param: ParamMetadata): Promise<any> | any {
+        return this.createResolver(param)(action);
+    }
 
-       /* if (param.type === "request")
-            return action.request;
+    /**
+     * Creates function which resolves values of all params of the given method in order of their indexes,
+     * so params are sorted and their resolvers are picked once, on method registration.
+     * Function returns array of values, or promise of it if any value is resolved asynchronously.
+     * If request params array has more params than method takes by their positions, or misses required ones,
+     * function rejects with InvalidParamsError.
+     */
+    compile(method: MethodMetadata): (action: Action) => any[] | Promise<any[]> {
+        const resolvers = method.params
+            .slice()
+            .sort((param1, param2) => param1.index - param2.index)
+            .map(param => this.createResolver(param));
 
-        if (param.type === "response")
-            return action.response;
+        const positionalParams = method.params.filter(param => param.type === "param" && param.position !== undefined);
+        const maxCount = positionalParams.reduce((count, param) => Math.max(count, param.position + 1), 0);
+        const minCount = positionalParams
+            .filter(param => param.required)
+            .reduce((count, param) => Math.max(count, param.position + 1), 0);
 
-        if (param.type === "context")
-            return action.context;
-*/
-        // get parameter value from request and normalize it
-        const value = this.normalizeParamValue(this.driver.getParamFromRequest(action, param), param);
-        if (isPromiseLike(value))
-            return value.then(value => this.handleValue(value, action, param));
+        return (action: Action) => {
+            const params = action.payload.params;
+            if (positionalParams.length > 0 && params instanceof Array) {
+                if (params.length > maxCount)
+                    return Promise.reject(new InvalidParamsError(`Too many params, method takes at most ${maxCount}`));
 
-        return this.handleValue(value, action, param);
+                if (params.length < minCount)
+                    return Promise.reject(new InvalidParamsError(`Not enough params, method takes at least ${minCount}`));
+            }
+
+            const values = resolvers.map(resolve => resolve(action));
+            return values.some(value => isPromiseLike(value)) ? Promise.all(values) : values;
+        };
     }
 
     // -------------------------------------------------------------------------
     // Protected Methods
     // -------------------------------------------------------------------------
 
+    /**
+     * Creates function which resolves value of the given param.
+     */
+    protected createResolver(param: ParamMetadata): (action: Action) => Promise<any> | any {
+        switch (param.type) {
+            case "current-user":
+                return action => this.getCurrentUser(action).then(user => this.handleCurrentUser(user, action, param));
+
+            case "method-match":
+                return action => this.getMethodMatch(action, param);
+
+            // transport objects are injected as is, without transformation and validation
+            case "request":
+            case "response":
+            case "context":
+            case "connection":
+                return action => this.driver.getParamFromRequest(action, param);
+
+            default:
+                return action => this.resolveValue(action, param);
+        }
+    }
+
+    /**
+     * Gets parameter value from request (or from custom decorator) and normalizes it.
+     */
+    protected resolveValue(action: Action, param: ParamMetadata): Promise<any> | any {
+        const rawValue = param.type === "custom"
+            ? param.value(action, param.methodMetadata)
+            : this.driver.getParamFromRequest(action, param);
+        const value = isPromiseLike(rawValue)
+            ? rawValue.then(rawValue => this.normalizeParamValue(rawValue, param))
+            : this.normalizeParamValue(rawValue, param);
+        if (isPromiseLike(value))
+            return value.then(value => this.handleValue(value, action, param));
+
+        return this.handleValue(value, action, param);
+    }
+
+    /**
+     * Resolves current user of the given action with the currentUserChecker.
+     * User is resolved once per request, so all @CurrentUser params and all calls of the batch share it.
+     */
+    protected getCurrentUser(action: Action): Promise<any> {
+        if (!this.driver.currentUserChecker)
+            return Promise.reject(new InternalError("Cannot use @CurrentUser decorator without currentUserChecker option"));
+
+        const requestAction = action.requestAction || action;
+        if (!this.currentUsers.has(requestAction))
+            this.currentUsers.set(requestAction, Promise.resolve(this.driver.currentUserChecker(action)));
+
+        return this.currentUsers.get(requestAction);
+    }
+
+    /**
+     * Gets groups captured from the called method name by the regexp or wildcard name of the method.
+     */
+    protected getMethodMatch(action: Action, param: ParamMetadata): string[] {
+        const fullName = param.methodMetadata.fullName;
+        const match = fullName instanceof RegExp ? fullName.exec(action.payload.method) : null;
+        return match ? match.slice(1) : [];
+    }
+
+    /**
+     * Handles resolved current user, rejects with AuthorizationRequiredError if user is required but request has none.
+     */
+    protected handleCurrentUser(user: any, action: Action, param: ParamMetadata): Promise<any> | any {
+        if (param.required && (user === null || user === undefined))
+            return Promise.reject(new AuthorizationRequiredError());
+
+        return this.handleValue(user, action, param);
+    }
+
     /**
      * Handles non-promise value.
      */
@@ -57,14 +158,26 @@ export class MethodParamsHandler<T extends BaseDriver> {
             if (param.type === "params" && !param.name && (isValueEmpty || isValueEmptyObject)) { // body has a special check and error message
                 return Promise.reject(new InvalidParamsError("Params empty"));
 
-            } else if (param.name && isValueEmpty) { // regular check for all other parameters // todo: figure out something with param.name usage and multiple things params (query params, upload files etc.)
-                return Promise.reject(new InvalidParamsError());
+            } else if ((param.name || param.position !== undefined || param.type === "custom") && isValueEmpty) { // regular check for all other parameters // todo: figure out something with param.name usage and multiple things params (query params, upload files etc.)
+                return Promise.reject(this.createMissingParamError(param));
             }
         }
 
         return value;
     }
 
+    /**
+     * Creates error of the missing required param, which names the param, so clients can tell which one is missing.
+     */
+    protected createMissingParamError(param: ParamMetadata): InvalidParamsError {
+        const path = param.name || (param.position !== undefined ? String(param.position) : undefined);
+        if (!path)
+            return new InvalidParamsError();
+
+        const message = `Missing required ${param.type} "${path}"`;
+        return new InvalidParamsError(message, [{ path: path, constraints: { isDefined: message } }]);
+    }
+
     /**
      * Normalizes parameter value.
      */
@@ -100,6 +213,7 @@ export class MethodParamsHandler<T extends BaseDriver> {
             default:
                 if (value && (param.parse || param.isTargetObject)) {
                     value = this.transformValue(value, param);
+                    value = this.validateValue(value, param); // note this one can return promise
                 }
         }
         return value;
@@ -121,4 +235,48 @@ export class MethodParamsHandler<T extends BaseDriver> {
         return value;
     }
 
+    /**
+     * Perform class-validation if enabled.
+     */
+    protected validateValue(value: any, paramMetadata: ParamMetadata): Promise<any> | any {
+        const isValidationEnabled = (paramMetadata.validate instanceof Object || paramMetadata.validate === true)
+            || (this.driver.enableValidation === true && paramMetadata.validate !== false);
+        const shouldValidate = paramMetadata.targetType
+            && (paramMetadata.targetType !== Object)
+            && (paramMetadata.targetType !== Array) // positional params have nothing to validate
+            && (value instanceof paramMetadata.targetType);
+
+        if (isValidationEnabled && shouldValidate) {
+            const options = Object.assign({}, this.driver.validationOptions, paramMetadata.validate);
+            return validate(value, options)
+                .then(errors => {
+                    if (errors.length > 0) {
+                        const path = paramMetadata.type !== "param" ? undefined
+                            : paramMetadata.name !== undefined ? paramMetadata.name : String(paramMetadata.position);
+                        throw new InvalidParamsError(undefined, this.flattenValidationErrors(errors, path));
+                    }
+
+                    return value;
+                });
+        }
+
+        return value;
+    }
+
+    /**
+     * Flattens nested class-validator errors into the list of invalid params with their full property paths.
+     */
+    protected flattenValidationErrors(errors: ValidationError[], parentPath?: string): InvalidParam[] {
+        return errors.reduce((invalidParams, error) => {
+            const path = parentPath ? `${parentPath}.${error.property}` : error.property;
+            if (error.constraints && Object.keys(error.constraints).length > 0)
+                invalidParams.push({ path, constraints: error.constraints });
+
+            if (error.children && error.children.length > 0)
+                invalidParams.push(...this.flattenValidationErrors(error.children, path));
+
+            return invalidParams;
+        }, [] as InvalidParam[]);
+    }
+
 }
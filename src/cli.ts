@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+import "reflect-metadata";
+import * as fs from "fs";
+import * as path from "path";
+import {ClientGenerator} from "./codegen/ClientGenerator";
+import {MetadataArgsStorage} from "./metadata-builder/MetadataArgsStorage";
+import {importClassesFromDirectories} from "./helpers/importClassesFromDirectories";
+
+const usage = `Usage: rpc-controllers generate-client --controllers <glob> [--controllers <glob>] [options]
+       rpc-controllers generate-client --registry <file>[#<export>] [options]
+
+Generates typed TypeScript client module of the given controllers served on the same endpoint.
+
+Options:
+  --controllers <glob>        Controller files to load, can be given multiple times
+  --registry <file>#<export>  Registry created with createRegistry to take controllers from, instead of the global
+                              storage, e.g. for controllers bound to it. Export name is "registry" by default
+  --route <route>             Route of the endpoint to generate client for, the default endpoint if not given
+  --separator <string>        Method name separator, "." by default
+  --auto-params               Map params onto method arguments, as autoParams option of the application does
+  --out <file>                File to write client to, client is printed to stdout if not given
+  --check                     Don't write the file, exit with code 1 if it's not up to date`;
+
+/**
+ * Parses command line arguments into a map of option values.
+ */
+function parseArguments(args: string[]): { [name: string]: string[] } {
+    const options: { [name: string]: string[] } = { _: [] };
+    for (let i = 0; i < args.length; i++) {
+        if (args[i].substr(0, 2) !== "--") {
+            options._.push(args[i]);
+            continue;
+        }
+
+        const name = args[i].substr(2);
+        const value = args[i + 1] !== undefined && args[i + 1].substr(0, 2) !== "--" ? args[++i] : "true";
+        options[name] = (options[name] || []).concat(value);
+    }
+    return options;
+}
+
+/**
+ * Loads registry exported by the module given as "file#export".
+ */
+function loadRegistry(reference: string): MetadataArgsStorage {
+    const [file, exportName] = reference.split("#");
+    const registry = require(path.resolve(file))[exportName || "registry"];
+    if (!(registry instanceof MetadataArgsStorage))
+        throw new Error(`${file} doesn't export registry "${exportName || "registry"}"`);
+
+    return registry;
+}
+
+/**
+ * Executes the command given in command line arguments and returns exit code.
+ */
+function run(args: string[]): number {
+    const options = parseArguments(args);
+    if (options._[0] !== "generate-client" || (!options.controllers && !options.registry)) {
+        process.stderr.write(usage + "\n");
+        return 1;
+    }
+
+    let source: string;
+    try {
+        const classes = options.controllers
+            ? importClassesFromDirectories(options.controllers.map(controller => path.resolve(controller)))
+            : undefined;
+        source = new ClientGenerator().generate(classes, {
+            registry: options.registry ? loadRegistry(options.registry[0]) : undefined,
+            route: options.route ? options.route[0] : undefined,
+            methodSeparator: options.separator ? options.separator[0] : undefined,
+            autoParams: !!options["auto-params"]
+        });
+    } catch (error) {
+        process.stderr.write(`${error.message}\n`);
+        return 1;
+    }
+
+    if (!options.out) {
+        process.stdout.write(source);
+        return 0;
+    }
+
+    const file = path.resolve(options.out[0]);
+    if (options.check) {
+        if (fs.existsSync(file) && fs.readFileSync(file, "utf8") === source)
+            return 0;
+
+        process.stderr.write(`${options.out[0]} is not up to date, regenerate it with generate-client command.\n`);
+        return 1;
+    }
+
+    fs.writeFileSync(file, source);
+    return 0;
+}
+
+process.exitCode = run(process.argv.slice(2));
@@ -0,0 +1,14 @@
+/**
+ * Thrown by the RpcClient when server haven't responded to the request in time.
+ */
+export class RequestTimeoutError extends Error {
+    name = "RequestTimeoutError";
+
+    constructor(public method: string, public timeout: number) {
+        super();
+        Object.setPrototypeOf(this, RequestTimeoutError.prototype);
+
+        this.message = `Request "${method}" timed out after ${timeout}ms`;
+    }
+
+}
@@ -0,0 +1,276 @@
+import {ClientTransport} from "./transport/ClientTransport";
+import {RpcClientOptions} from "./RpcClientOptions";
+import {RequestTimeoutError} from "./RequestTimeoutError";
+import {createRpcError} from "../helpers/createRpcError";
+
+/**
+ * Single call of the batch request.
+ */
+export interface BatchCall {
+    method: string;
+    params?: any;
+    notification?: boolean;
+}
+
+/**
+ * Resolved value of the method result.
+ */
+export type RpcResult<R> = R extends PromiseLike<infer U> ? U : R;
+
+/**
+ * Proxy function of the controller method, which takes method arguments and resolves to its result.
+ */
+export type RpcProxyMethod<F> =
+    F extends () => infer R ? () => Promise<RpcResult<R>> :
+    F extends (a: infer A) => infer R ? (a: A) => Promise<RpcResult<R>> :
+    F extends (a: infer A, b: infer B) => infer R ? (a: A, b: B) => Promise<RpcResult<R>> :
+    F extends (a: infer A, b: infer B, c: infer C) => infer R ? (a: A, b: B, c: C) => Promise<RpcResult<R>> :
+    F extends (a: infer A, b: infer B, c: infer C, d: infer D) => infer R ? (a: A, b: B, c: C, d: D) => Promise<RpcResult<R>> :
+    F extends (...args: any[]) => any ? (...args: any[]) => Promise<any> :
+    never;
+
+/**
+ * Names of the params of the proxy methods which take params by names, by method names.
+ */
+export type RpcProxyParamNames<T> = {
+    [K in keyof T]?: string[];
+};
+
+/**
+ * Proxy of the controller, which has the same methods as controller, but they are executed on the server.
+ */
+export type RpcProxy<T> = {
+    [K in keyof T]: RpcProxyMethod<T[K]>;
+};
+
+/**
+ * JSON-RPC 2.0 client, which sends requests to the server using the given transport.
+ * Error responses are rejected with RpcError subclasses, e.g. MethodNotFoundError or InvalidParamsError.
+ */
+export class RpcClient {
+
+    // -------------------------------------------------------------------------
+    // Private properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Id of the last sent request.
+     */
+    private lastId = 0;
+
+    /**
+     * Calls waiting to be sent in the next auto-batch request.
+     */
+    private queue: Array<{ payload: any, resolve: (response: any) => void, reject: (error: any) => void }> = [];
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(public transport: ClientTransport, private options: RpcClientOptions = {}) {
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Calls given method and resolves to its result.
+     */
+    request<T = any>(method: string, params?: any): Promise<T> {
+        const payload = this.createRequest(method, params, false);
+        return this.withTimeout(this.send(payload), payload)
+            .then(response => this.getResult(response, payload));
+    }
+
+    /**
+     * Sends notification, which isn't responded by the server.
+     * Resolves once notification is sent.
+     */
+    notify(method: string, params?: any): Promise<void> {
+        return this.send(this.createRequest(method, params, true)).then(() => undefined);
+    }
+
+    /**
+     * Sends given calls as a single batch request and resolves to the array of their results in the same order.
+     * Failed calls are resolved to their errors, and notifications are resolved to undefined.
+     */
+    batch(calls: BatchCall[]): Promise<any[]> {
+        if (calls.length === 0)
+            return Promise.resolve([]);
+
+        const payloads = calls.map(call => this.createRequest(call.method, call.params, !!call.notification));
+        return this.withTimeout(this.transport.send(payloads), payloads)
+            .then(responses => payloads.map(payload => {
+                if (payload.id === undefined)
+                    return undefined;
+
+                try {
+                    const response = responses instanceof Array ? responses.find(response => response.id === payload.id) : responses;
+                    return this.getResult(response, payload);
+                } catch (error) {
+                    return error;
+                }
+            }));
+    }
+
+    /**
+     * Creates proxy of the controller with the given name, so its methods can be called like local ones:
+     * client.proxy<MathController>("math").add(1, 2).
+     * Arguments are sent as positional params, single object or array argument is sent as params itself.
+     * Arguments of the methods which take params by names (e.g. with @Param("a")) are sent as params object
+     * with the given names: client.proxy<MathController>("math", { add: ["a", "b"] }).
+     */
+    proxy<T>(namespace?: string, paramNames: RpcProxyParamNames<T> = {}): RpcProxy<T> {
+        const separator = this.options.methodSeparator || ".";
+        return new Proxy({}, {
+            get: (target: any, name: PropertyKey) => {
+
+                // proxy isn't thenable, so it can be returned from async functions
+                if (typeof name !== "string" || name === "then")
+                    return undefined;
+
+                const method = namespace ? namespace + separator + name : name;
+                const names: string[] = (paramNames as any)[name];
+                return (...args: any[]) => {
+                    try {
+                        return this.request(method, this.createProxyParams(args, names));
+                    } catch (error) {
+                        return Promise.reject(error);
+                    }
+                };
+            }
+        });
+    }
+
+    /**
+     * Closes transport connection, if transport has one.
+     */
+    close(): void {
+        if (this.transport.close)
+            this.transport.close();
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates JSON-RPC request object. Notifications don't have an id.
+     */
+    protected createRequest(method: string, params: any, notification: boolean): any {
+        const payload: any = { jsonrpc: "2.0", method: method };
+        if (params !== undefined)
+            payload.params = params;
+        if (!notification)
+            payload.id = this.options.generateId ? this.options.generateId() : ++this.lastId;
+
+        return payload;
+    }
+
+    /**
+     * Creates params of the proxy method call from its arguments.
+     * If param names are given, arguments are sent as params object with these names.
+     */
+    protected createProxyParams(args: any[], names?: string[]): any {
+        if (names) {
+            if (args.length > names.length)
+                throw new Error(`Method takes at most ${names.length} params, but ${args.length} arguments are given`);
+
+            return names.reduce((params, name, index) => {
+                if (args[index] !== undefined)
+                    params[name] = args[index];
+
+                return params;
+            }, {} as { [name: string]: any });
+        }
+
+        if (args.length === 0)
+            return undefined;
+
+        // single argument of the method with @Params() decorator is the params itself
+        if (args.length === 1 && args[0] instanceof Object)
+            return args[0];
+
+        return args;
+    }
+
+    /**
+     * Sends single request object. If auto-batching is enabled, request is queued and sent with others made in this tick.
+     */
+    protected send(payload: any): Promise<any> {
+        if (!this.options.batch)
+            return this.transport.send(payload);
+
+        return new Promise((resolve, reject) => {
+            if (this.queue.length === 0)
+                Promise.resolve().then(() => this.flush());
+
+            this.queue.push({ payload, resolve, reject });
+        });
+    }
+
+    /**
+     * Sends all queued requests as a batch and resolves them with their responses.
+     */
+    protected flush(): void {
+        const queue = this.queue;
+        this.queue = [];
+
+        if (queue.length === 1)
+            return void this.transport.send(queue[0].payload).then(queue[0].resolve, queue[0].reject);
+
+        this.transport.send(queue.map(call => call.payload)).then(responses => {
+            queue.forEach(call => {
+                if (call.payload.id === undefined)
+                    return call.resolve(undefined);
+
+                // error which isn't an array is responded for the whole batch, e.g. parse error
+                call.resolve(responses instanceof Array ? responses.find(response => response.id === call.payload.id) : responses);
+            });
+        }, error => queue.forEach(call => call.reject(error)));
+    }
+
+    /**
+     * Gets result of the given response, or throws RpcError if error is responded.
+     */
+    protected getResult(response: any, payload: any): any {
+        if (!(response instanceof Object))
+            throw new Error(`No response received to the request "${payload.method}"`);
+
+        if (response.error)
+            throw createRpcError(response.error);
+
+        return response.result;
+    }
+
+    /**
+     * Rejects given response promise of the given request payload with RequestTimeoutError if it isn't settled in time.
+     * Transport stops waiting for the response of the timed out request, if it can.
+     */
+    protected withTimeout<T>(promise: Promise<T>, payload: any): Promise<T> {
+        const timeout = this.options.timeout;
+        if (!timeout)
+            return promise;
+
+        return new Promise<T>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                if (this.transport.cancel)
+                    this.transport.cancel(payload);
+
+                const method = payload instanceof Array ? payload.map(call => call.method).join(", ") : payload.method;
+                reject(new RequestTimeoutError(method, timeout));
+            }, timeout);
+            promise.then(
+                result => {
+                    clearTimeout(timer);
+                    resolve(result);
+                },
+                error => {
+                    clearTimeout(timer);
+                    reject(error);
+                });
+        });
+    }
+
+}
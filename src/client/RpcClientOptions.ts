@@ -0,0 +1,28 @@
+/**
+ * RpcClient options.
+ */
+export interface RpcClientOptions {
+
+    /**
+     * Time in milliseconds to wait for the response, after which request is rejected with RequestTimeoutError.
+     * By default requests wait for the response as long as transport does.
+     */
+    timeout?: number;
+
+    /**
+     * Indicates if calls made within the same tick should be sent together as a single batch request.
+     */
+    batch?: boolean;
+
+    /**
+     * Separator of the proxy namespace and method name, for example 'math.add'.
+     * By default "."
+     */
+    methodSeparator?: string;
+
+    /**
+     * Generates ids of the requests. By default ids are incremented numbers.
+     */
+    generateId?: () => string | number;
+
+}
@@ -0,0 +1,28 @@
+/**
+ * Transport used by the RpcClient to send requests to the server.
+ */
+export interface ClientTransport {
+
+    /**
+     * Sends JSON-RPC request payload (a single request object or a batch) and resolves to the response payload.
+     * Resolves to undefined if nothing is responded, e.g. payload consists of notifications only.
+     */
+    send(payload: any): Promise<any>;
+
+    /**
+     * Called with notifications pushed by the server, e.g. subscription events.
+     * Only persistent transports (like WebSocket) can receive them.
+     */
+    onNotification?: (notification: any) => void;
+
+    /**
+     * Stops waiting for the response of the given request payload, e.g. when request is timed out.
+     */
+    cancel?(payload: any): void;
+
+    /**
+     * Closes underlying connection, if transport has one.
+     */
+    close?(): void;
+
+}
@@ -0,0 +1,103 @@
+import {ClientTransport} from "./ClientTransport";
+
+/**
+ * Fetch API function provided by the runtime.
+ */
+declare const fetch: any;
+
+/**
+ * HttpTransport options.
+ */
+export interface HttpTransportOptions {
+
+    /**
+     * Additional headers sent with every request, e.g. authorization header.
+     */
+    headers?: { [name: string]: string };
+
+    /**
+     * Fetch API function to send requests with.
+     * By default global fetch is used if runtime provides it, otherwise requests are sent with node http module.
+     */
+    fetch?: (url: string, init: any) => Promise<any>;
+
+}
+
+/**
+ * Client transport which sends every request payload in the body of a POST request.
+ */
+export class HttpTransport implements ClientTransport {
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(public url: string, public options: HttpTransportOptions = {}) {
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Posts JSON-RPC request payload and resolves to the response payload.
+     */
+    send(payload: any): Promise<any> {
+        const body = JSON.stringify(payload);
+        const headers = { "Content-Type": "application/json", "Accept": "application/json", ...this.options.headers };
+        const fetchFunction = this.options.fetch || (typeof fetch !== "undefined" ? fetch : undefined);
+
+        if (fetchFunction) {
+            return fetchFunction(this.url, { method: "POST", headers, body })
+                .then((response: any) => response.text().then((text: string) => this.parseResponse(response.status, text)));
+        }
+
+        return this.post(body, headers);
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Posts given body with node http or https module and resolves to the parsed response.
+     */
+    protected post(body: string, headers: { [name: string]: string }): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const options = { ...require("url").parse(this.url), method: "POST", headers: { ...headers, "Content-Length": Buffer.byteLength(body) } };
+            const request = require(options.protocol === "https:" ? "https" : "http").request(options, (response: any) => {
+                const chunks: Buffer[] = [];
+                response.on("data", (chunk: Buffer) => chunks.push(chunk));
+                response.on("end", () => {
+                    try {
+                        resolve(this.parseResponse(response.statusCode, Buffer.concat(chunks).toString("utf8")));
+                    } catch (error) {
+                        reject(error);
+                    }
+                });
+                response.on("error", reject);
+            });
+            request.on("error", reject);
+            request.end(body);
+        });
+    }
+
+    /**
+     * Parses response body. Empty successful body means nothing is responded, e.g. request contained only notifications.
+     * Errors are responded with JSON-RPC error objects even with non-2xx statuses, so only unparsable bodies fail.
+     */
+    protected parseResponse(status: number, text: string): any {
+        if (text === "" && status >= 400)
+            throw new Error(`Server responded with ${status} status`);
+
+        if (text === "")
+            return undefined;
+
+        try {
+            return JSON.parse(text);
+        } catch (e) {
+            throw new Error(`Unexpected response from the server with ${status} status: ${text.substr(0, 100)}`);
+        }
+    }
+
+}
@@ -0,0 +1,125 @@
+import {ClientTransport} from "./ClientTransport";
+
+/**
+ * Base class for transports which send requests and receive responses as separate messages over a persistent
+ * connection (WebSocket, streams). Responses can come in any order, so they are matched to requests by their ids.
+ */
+export abstract class MessageTransport implements ClientTransport {
+
+    // -------------------------------------------------------------------------
+    // Public properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Called with notifications pushed by the server, e.g. subscription events.
+     */
+    onNotification?: (notification: any) => void;
+
+    // -------------------------------------------------------------------------
+    // Private properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Requests waiting for the response, by request id, in the order they are sent.
+     * Ids are used as is, so requests with ids 1 and "1" are different requests.
+     */
+    private pending = new Map<string | number, { ids: Array<string | number>, resolve: (payload: any) => void, reject: (error: any) => void }>();
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sends JSON-RPC request payload and resolves to the response payload once it's received.
+     */
+    send(payload: any): Promise<any> {
+        const ids = this.getIds(payload);
+
+        return new Promise((resolve, reject) => {
+            if (ids.length > 0) {
+                const request = { ids, resolve, reject };
+                ids.forEach(id => this.pending.set(id, request));
+            }
+
+            try {
+                this.write(payload);
+            } catch (error) {
+                ids.forEach(id => this.pending.delete(id));
+                return reject(error);
+            }
+
+            // notifications are not responded
+            if (ids.length === 0)
+                resolve(undefined);
+        });
+    }
+
+    /**
+     * Stops waiting for the response of the given request payload, e.g. when request is timed out.
+     * Response is ignored if it's received later.
+     */
+    cancel(payload: any): void {
+        this.getIds(payload).forEach(id => this.pending.delete(id));
+    }
+
+    /**
+     * Closes underlying connection.
+     */
+    abstract close(): void;
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Writes JSON-RPC payload to the connection.
+     */
+    protected abstract write(payload: any): void;
+
+    /**
+     * Handles message received from the connection.
+     * Responses are resolved to the requests they belong to, server notifications are passed to onNotification.
+     * Error responded without id (e.g. parse error of the whole batch) can't be matched to its request,
+     * so it's resolved to the earliest sent request which is still waiting, and all calls of that batch get the error.
+     */
+    protected receive(message: string): void {
+        let payload: any;
+        try {
+            payload = JSON.parse(message);
+        } catch (e) {
+            return;
+        }
+
+        const messages: any[] = payload instanceof Array ? payload : [payload];
+        const response = messages.find(message => message instanceof Object && this.pending.has(message.id));
+        const hasErrorWithoutId = messages.some(message => message instanceof Object && message.id === null && !!message.error);
+        if (response || (hasErrorWithoutId && this.pending.size > 0)) {
+            const request = response ? this.pending.get(response.id) : this.pending.values().next().value;
+            request.ids.forEach(id => this.pending.delete(id));
+            return request.resolve(payload);
+        }
+
+        messages
+            .filter(message => message instanceof Object && typeof message.method === "string" && message.id === undefined)
+            .forEach(notification => this.onNotification && this.onNotification(notification));
+    }
+
+    /**
+     * Gets ids of the requests of the given payload which are responded, i.e. which aren't notifications.
+     */
+    protected getIds(payload: any): Array<string | number> {
+        return (payload instanceof Array ? payload : [payload])
+            .filter(request => request instanceof Object && request.id !== undefined && request.id !== null)
+            .map(request => request.id);
+    }
+
+    /**
+     * Rejects all requests waiting for the response, e.g. when connection is closed.
+     */
+    protected rejectPending(error: any): void {
+        const pending = this.pending;
+        this.pending = new Map();
+        pending.forEach(request => request.reject(error));
+    }
+
+}
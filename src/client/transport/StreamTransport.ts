@@ -0,0 +1,49 @@
+import {MessageTransport} from "./MessageTransport";
+import {StreamFraming} from "../../driver/stream/StreamDriver";
+import {createFrameReader} from "../../helpers/createFrameReader";
+import {frameMessage} from "../../helpers/frameMessage";
+
+/**
+ * Client transport which writes requests to a stream and reads responses from a stream,
+ * e.g. stdio of the child process or net.Socket.
+ * If output stream isn't given then input stream is used, e.g. for duplex streams like net.Socket.
+ */
+export class StreamTransport extends MessageTransport {
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(public input: any, public output: any = input, public framing: StreamFraming = "content-length") {
+        super();
+        const reader = createFrameReader(framing);
+        input.on("data", (chunk: Buffer | string) => reader(chunk).forEach(message => this.receive(message)));
+        input.on("close", () => this.rejectPending(new Error("Stream was closed")));
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Ends output stream.
+     */
+    close(): void {
+        this.output.end();
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Writes payload to the output stream using transport's framing.
+     */
+    protected write(payload: any): void {
+        if (this.output.writable === false)
+            throw new Error("Stream is not writable");
+
+        this.output.write(frameMessage(JSON.stringify(payload), this.framing));
+    }
+
+}
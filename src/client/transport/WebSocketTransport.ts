@@ -0,0 +1,100 @@
+import {MessageTransport} from "./MessageTransport";
+
+/**
+ * WebSocket class provided by the runtime (browsers, Deno, etc.).
+ */
+declare const WebSocket: any;
+
+/**
+ * Client transport which sends requests over WebSocket connection.
+ * Takes server url or an already created WebSocket (browser WebSocket or ws package client).
+ * In Node, url is connected with ws package, unless runtime provides WebSocket class.
+ */
+export class WebSocketTransport extends MessageTransport {
+
+    // -------------------------------------------------------------------------
+    // Public properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * WebSocket connection requests are sent over.
+     */
+    socket: any;
+
+    // -------------------------------------------------------------------------
+    // Private properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Messages written before connection was opened.
+     */
+    private queue: string[] = [];
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(socket: string | any) {
+        super();
+        this.socket = typeof socket === "string" ? this.createSocket(socket) : socket;
+
+        this.socket.addEventListener("open", () => {
+            this.queue.forEach(message => this.socket.send(message));
+            this.queue = [];
+        });
+        this.socket.addEventListener("message", (event: any) => this.receive(event.data.toString()));
+        this.socket.addEventListener("close", () => this.rejectPending(new Error("WebSocket connection was closed")));
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Closes WebSocket connection.
+     * If connection isn't open yet, it's closed once queued messages are sent.
+     */
+    close(): void {
+        if (this.socket.readyState === 0)
+            return this.socket.addEventListener("open", () => this.socket.close());
+
+        this.socket.close();
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sends payload once connection is open.
+     */
+    protected write(payload: any): void {
+        const message = JSON.stringify(payload);
+        if (this.socket.readyState === 0) {
+            this.queue.push(message);
+        } else if (this.socket.readyState === 1) {
+            this.socket.send(message);
+        } else {
+            throw new Error("WebSocket connection is closed");
+        }
+    }
+
+    /**
+     * Creates WebSocket connected to the given url.
+     */
+    protected createSocket(url: string): any {
+        if (typeof WebSocket !== "undefined")
+            return new WebSocket(url);
+
+        if (require) {
+            try {
+                return new (require("ws"))(url);
+            } catch (e) {
+                throw new Error("ws package was not found installed. Try to install it: npm install ws --save");
+            }
+        } else {
+            throw new Error("Cannot load ws. Try to install all required dependencies.");
+        }
+    }
+
+}
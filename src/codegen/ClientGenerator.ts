@@ -0,0 +1,333 @@
+import {ControllerMetadata} from "../metadata/ControllerMetadata";
+import {MethodMetadata} from "../metadata/MethodMetadata";
+import {RpcError} from "../rpc-error/RpcError";
+import {OpenRpcGenerator} from "../openrpc/OpenRpcGenerator";
+import {JsonSchema, OpenRpcDocument, OpenRpcMethod} from "../openrpc/OpenRpcDocument";
+import {MetadataBuilder} from "../metadata-builder/MetadataBuilder";
+import {normalizeRoute} from "../helpers/normalizeRoute";
+import {ClientGeneratorOptions} from "./ClientGeneratorOptions";
+
+/**
+ * Generates source of the typed TypeScript client module of the controllers served on the same endpoint.
+ * Generated module exports createClient function, which creates an object with one function per method,
+ * namespaced by controller name (e.g. client.math.add(1, 2)), interfaces of the classes used in params and results,
+ * and error classes of the errors declared with @Throws decorator.
+ * Output is stable for the same controllers, so it can be committed and checked in CI.
+ */
+export class ClientGenerator {
+
+    // -------------------------------------------------------------------------
+    // Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Words which can't be used as argument names.
+     */
+    static readonly reservedWords = [
+        "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else", "enum",
+        "export", "extends", "false", "finally", "for", "function", "if", "import", "in", "instanceof", "new", "null",
+        "return", "super", "switch", "this", "throw", "true", "try", "typeof", "var", "void", "while", "with",
+        "implements", "interface", "let", "package", "private", "protected", "public", "static", "yield",
+        "arguments", "eval", "call"
+    ];
+
+    /**
+     * OpenRPC document of the methods being generated, params and result schemas are taken from it.
+     */
+    protected document: OpenRpcDocument;
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Generates client module source of the given controller classes (or their built metadata),
+     * by default of all controllers of the registry. Only controllers of the endpoint with the given route are included,
+     * and of the methods with the same name only the first registered one is, as the endpoint executes it.
+     */
+    generate(controllers?: Array<Function | ControllerMetadata>, options: ClientGeneratorOptions = {}): string {
+        const route = normalizeRoute(options.route || "");
+        const methods = this.buildControllers(controllers, options)
+            .filter(controller => controller.route === route)
+            .reduce((methods, controller) => methods.concat(controller.methods), [] as MethodMetadata[])
+            .filter(method => !method.subscription && typeof method.fullName === "string")
+            .filter((method, index, methods) => methods.findIndex(other => other.fullName === method.fullName) === index)
+            .sort((method1, method2) => (method1.fullName as string).localeCompare(method2.fullName as string));
+
+        this.document = new OpenRpcGenerator().generate(methods, { title: "", version: "" });
+
+        return [
+            this.createHeader(),
+            this.createInterfaces(),
+            this.createErrors(methods),
+            this.createClient(methods)
+        ].filter(source => source.length > 0).join("\n\n") + "\n";
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Builds metadata of the given controller classes, metadata which is already built is used as is.
+     */
+    protected buildControllers(controllers: Array<Function | ControllerMetadata> | undefined, options: ClientGeneratorOptions): ControllerMetadata[] {
+        const metadata = (controllers || []).filter(controller => controller instanceof ControllerMetadata) as ControllerMetadata[];
+        const classes = controllers ? controllers.filter(controller => !(controller instanceof ControllerMetadata)) as Function[] : undefined;
+        if (classes && classes.length === 0)
+            return metadata;
+
+        const builder = new MetadataBuilder({
+            registry: options.registry,
+            methodSeparator: options.methodSeparator,
+            autoParams: options.autoParams
+        });
+        return [...metadata, ...builder.buildControllerMetadata(classes)];
+    }
+
+    /**
+     * Creates transport type and base error class of the client.
+     */
+    protected createHeader(): string {
+        return [
+            `/* tslint:disable */`,
+            `// This file is generated by rpc-controllers, do not edit it manually.`,
+            ``,
+            `/**`,
+            ` * Sends JSON-RPC request object to the server and resolves to the response object.`,
+            ` */`,
+            `export type RpcTransport = (request: { jsonrpc: "2.0", id: number, method: string, params?: any }) => Promise<any>;`,
+            ``,
+            `/**`,
+            ` * Error responded by the server.`,
+            ` */`,
+            `export class RpcClientError extends Error {`,
+            `    constructor(public code: number, message: string, public data?: any) {`,
+            `        super(message);`,
+            `        Object.setPrototypeOf(this, new.target.prototype);`,
+            `    }`,
+            `}`
+        ].join("\n");
+    }
+
+    /**
+     * Creates interfaces of all classes used in params and results.
+     */
+    protected createInterfaces(): string {
+        const schemas = (this.document.components && this.document.components.schemas) || {};
+        return Object.keys(schemas)
+            .sort()
+            .map(name => {
+                const schema = schemas[name];
+                const properties = Object.keys(schema.properties || {}).map(property => {
+                    const optional = !schema.required || schema.required.indexOf(property) === -1;
+                    return `    ${this.createPropertyName(property)}${optional ? "?" : ""}: ${this.createType(schema.properties[property])};`;
+                });
+                return [`export interface ${name} {`, ...properties, `}`].join("\n");
+            })
+            .join("\n\n");
+    }
+
+    /**
+     * Creates error classes of the declared errors, so clients can catch them with instanceof.
+     */
+    protected createErrors(methods: MethodMetadata[]): string {
+        const errors: RpcError[] = [];
+        methods.forEach(method => {
+            method.errors
+                .filter(error => !errors.some(declared => declared.rpcCode === error.rpcCode))
+                .forEach(error => errors.push(error));
+        });
+        errors.sort((error1, error2) => error2.rpcCode - error1.rpcCode);
+
+        const classes = errors.map(error => [
+            `export class ${this.createErrorName(error)} extends RpcClientError {`,
+            `    static readonly code = ${error.rpcCode};`,
+            `}`
+        ].join("\n"));
+
+        const registry = [
+            `const errorClasses: { [code: string]: typeof RpcClientError } = {`,
+            ...errors.map(error => `    "${error.rpcCode}": ${this.createErrorName(error)},`),
+            `};`
+        ];
+
+        return [...classes, registry.join("\n")].join("\n\n");
+    }
+
+    /**
+     * Creates createClient function with namespaced method functions.
+     * Throws an error if method has the same name as a controller namespace, since client can't have both.
+     */
+    protected createClient(methods: MethodMetadata[]): string {
+        const namespaces: any = {};
+        methods.forEach(method => {
+            const names = [method.controllerMetadata.name, method.name as string].filter(name => !!name);
+            const namespace = names.slice(0, -1).reduce((namespace, name) => {
+                if (namespace[name] instanceof MethodMetadata)
+                    throw new Error(`Method "${namespace[name].fullName}" conflicts with namespace "${name}" of the method "${method.fullName}"`);
+
+                return namespace[name] = namespace[name] || {};
+            }, namespaces);
+
+            const name = names[names.length - 1];
+            if (namespace[name] !== undefined)
+                throw new Error(`Method "${method.fullName}" conflicts with namespace "${name}" of other methods`);
+
+            namespace[name] = method;
+        });
+
+        return [
+            `/**`,
+            ` * Creates client which calls server methods using the given transport.`,
+            ` * Rejects with the error class of the declared error code, or with RpcClientError for other errors.`,
+            ` */`,
+            `export function createClient(transport: RpcTransport) {`,
+            `    let id = 0;`,
+            `    const call = (method: string, params?: any): Promise<any> => {`,
+            `        const request: { jsonrpc: "2.0", id: number, method: string, params?: any } = { jsonrpc: "2.0", id: ++id, method: method };`,
+            `        if (params !== undefined)`,
+            `            request.params = params;`,
+            ``,
+            `        return transport(request).then(response => {`,
+            `            if (response.error) {`,
+            `                const ErrorClass = errorClasses[response.error.code] || RpcClientError;`,
+            `                throw new ErrorClass(response.error.code, response.error.message, response.error.data);`,
+            `            }`,
+            `            return response.result;`,
+            `        });`,
+            `    };`,
+            ``,
+            `    return ${this.createNamespace(namespaces, "    ")};`,
+            `}`,
+            ``,
+            `export type Client = ReturnType<typeof createClient>;`
+        ].join("\n");
+    }
+
+    /**
+     * Creates object literal of the namespace functions.
+     */
+    protected createNamespace(namespace: any, indent: string): string {
+        const members = Object.keys(namespace).map(name => {
+            const value = namespace[name] instanceof MethodMetadata
+                ? this.createFunction(namespace[name])
+                : this.createNamespace(namespace[name], indent + "    ");
+            return `${indent}    ${this.createPropertyName(name)}: ${value},`;
+        });
+        return ["{", ...members, `${indent}}`].join("\n");
+    }
+
+    /**
+     * Creates function which calls the given method.
+     * Methods with @Param params only take them as arguments, which are sent by their positions if method takes
+     * params only by positions, or by their names otherwise. Other by-name methods take a single params object.
+     */
+    protected createFunction(method: MethodMetadata): string {
+        const openRpcMethod = this.document.methods.find(openRpcMethod => openRpcMethod.name === method.fullName);
+        const result = `Promise<${this.createType(openRpcMethod.result.schema)}>`;
+        const name = JSON.stringify(method.fullName);
+        const rpcParams = method.params.filter(param => param.type === "param" || param.type === "params");
+
+        if (rpcParams.length > 0 && rpcParams.every(param => param.type === "param")) {
+            const args = this.createArguments(openRpcMethod);
+            if (openRpcMethod.paramStructure === "by-position")
+                return `(${args.map(arg => arg.declaration).join(", ")}): ${result} => call(${name}, [${args.map(arg => arg.name).join(", ")}])`;
+
+            const params = openRpcMethod.params.map((param, index) => `${this.createPropertyName(param.name)}: ${args[index].name}`);
+            return `(${args.map(arg => arg.declaration).join(", ")}): ${result} => call(${name}, { ${params.join(", ")} })`;
+        }
+
+        if (openRpcMethod.paramStructure === "by-position")
+            return `(...params: any[]): ${result} => call(${name}, params)`;
+
+        if (openRpcMethod.paramStructure === "either")
+            return `(params?: any): ${result} => call(${name}, params)`;
+
+        if (rpcParams.length === 0)
+            return `(): ${result} => call(${name})`;
+
+        const paramsType = this.createType({
+            type: "object",
+            properties: openRpcMethod.params.reduce((properties, param) => ({ ...properties, [param.name]: param.schema }), {}),
+            required: openRpcMethod.params.filter(param => param.required).map(param => param.name)
+        });
+        const optional = openRpcMethod.params.every(param => !param.required);
+        return `(params${optional ? "?" : ""}: ${paramsType}): ${result} => call(${name}, params)`;
+    }
+
+    /**
+     * Creates function arguments of the method params.
+     * Param is optional only if all following params are optional too.
+     */
+    protected createArguments(method: OpenRpcMethod): Array<{ name: string, declaration: string }> {
+        const lastRequired = method.params.map(param => !!param.required).lastIndexOf(true);
+        return method.params.map((param, index) => {
+            const name = this.isIdentifier(param.name) && ClientGenerator.reservedWords.indexOf(param.name) === -1 ? param.name : `param${index}`;
+            const optional = index > lastRequired ? "?" : "";
+            return { name: name, declaration: `${name}${optional}: ${this.createType(param.schema)}` };
+        });
+    }
+
+    /**
+     * Creates TypeScript type of the given JSON schema.
+     */
+    protected createType(schema: JsonSchema): string {
+        if (schema.$ref)
+            return schema.$ref.substr(schema.$ref.lastIndexOf("/") + 1);
+
+        if (schema.enum)
+            return schema.enum.map((value: any) => JSON.stringify(value)).join(" | ");
+
+        switch (schema.type) {
+            case "string":
+                return "string";
+            case "number":
+            case "integer":
+                return "number";
+            case "boolean":
+                return "boolean";
+            case "array":
+                return `Array<${schema.items ? this.createType(schema.items) : "any"}>`;
+            case "object":
+                if (!schema.properties)
+                    return "any";
+
+                const properties = Object.keys(schema.properties).map(property => {
+                    const optional = !schema.required || schema.required.indexOf(property) === -1;
+                    return `${this.createPropertyName(property)}${optional ? "?" : ""}: ${this.createType(schema.properties[property])}`;
+                });
+                return properties.length > 0 ? `{ ${properties.join(", ")} }` : "{}";
+            default:
+                return "any";
+        }
+    }
+
+    /**
+     * Creates error class name of the given error.
+     * Name of the error class is used if it's set, otherwise name is made from the error message.
+     */
+    protected createErrorName(error: RpcError): string {
+        if (error.name && error.name !== "Error" && this.isIdentifier(error.name))
+            return error.name;
+
+        const words = (error.message || "").match(/[a-zA-Z0-9]+/g) || [];
+        const name = words.map(word => word.charAt(0).toUpperCase() + word.substr(1)).join("");
+        return this.isIdentifier(name) ? `${name}Error` : `RpcError${Math.abs(error.rpcCode)}`;
+    }
+
+    /**
+     * Creates object property name, quotes it if it's not a valid identifier.
+     */
+    protected createPropertyName(name: string): string {
+        return this.isIdentifier(name) ? name : JSON.stringify(name);
+    }
+
+    /**
+     * Checks if given name can be used as identifier.
+     */
+    protected isIdentifier(name: string): boolean {
+        return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name);
+    }
+
+}
@@ -0,0 +1,29 @@
+import {MetadataArgsStorage} from "../metadata-builder/MetadataArgsStorage";
+
+/**
+ * Options of the client generation. They should match options of the application serving the client.
+ */
+export interface ClientGeneratorOptions {
+
+    /**
+     * Registry controller classes are taken from, by default the global metadata storage.
+     */
+    registry?: MetadataArgsStorage;
+
+    /**
+     * Route of the endpoint client is generated for. Client calls methods of this endpoint only,
+     * since methods of other endpoints are served on other urls. By default it's the default endpoint.
+     */
+    route?: string;
+
+    /**
+     * Separator of controller and method names, "." by default.
+     */
+    methodSeparator?: string;
+
+    /**
+     * Indicates if request params are mapped onto method arguments without param decorators.
+     */
+    autoParams?: boolean;
+
+}
@@ -13,6 +13,12 @@ export interface UseContainerOptions {
      */
     fallbackOnErrors?: boolean;
 
+    /**
+     * If set to true, instances returned by the given container are cached, so container is asked for every class once.
+     * Set it only if container always returns the same instance of the class.
+     */
+    cache?: boolean;
+
 }
 
 /**
@@ -20,28 +26,31 @@ export interface UseContainerOptions {
  * container simply creates a new instance of the given class.
  */
 const defaultContainer: {get<T>(someClass: {new(...args: any[]): T} | Function): T} = new (class {
-    private instances: {type: Function, object: any}[] = [];
+    private instances = new Map<Function, any>();
 
     get<T>(someClass: {new(...args: any[]): T}): T {
-        let instance = this.instances.find(instance => instance.type === someClass);
-        if (!instance) {
-            instance = {type: someClass, object: new someClass()};
-            this.instances.push(instance);
-        }
+        if (!this.instances.has(someClass))
+            this.instances.set(someClass, new someClass());
 
-        return instance.object;
+        return this.instances.get(someClass);
     }
 })();
 
 let userContainer: {get<T>(someClass: {new(...args: any[]): T} | Function): T};
 let userContainerOptions: UseContainerOptions;
 
+/**
+ * Instances returned by the user container, if it's allowed to cache them.
+ */
+let userContainerInstances = new Map<Function, any>();
+
 /**
  * Sets container to be used by this library.
  */
 export function useContainer(iocContainer: {get(someClass: any): any}, options?: UseContainerOptions) {
     userContainer = iocContainer;
     userContainerOptions = options;
+    userContainerInstances = new Map<Function, any>();
 }
 
 /**
@@ -49,10 +58,17 @@ export function useContainer(iocContainer: {get(someClass: any): any}, options?:
  */
 export function getFromContainer<T>(someClass: {new(...args: any[]): T} | Function): T {
     if (userContainer) {
+        if (userContainerInstances.has(someClass))
+            return userContainerInstances.get(someClass);
+
         try {
             const instance = userContainer.get(someClass);
-            if (instance)
+            if (instance) {
+                if (userContainerOptions && userContainerOptions.cache)
+                    userContainerInstances.set(someClass, instance);
+
                 return instance;
+            }
 
             if (!userContainerOptions || !userContainerOptions.fallback)
                 return instance;
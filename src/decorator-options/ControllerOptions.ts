@@ -0,0 +1,22 @@
+import {MetadataArgsStorage} from "../metadata-builder/MetadataArgsStorage";
+
+/**
+ * Options of the @Controller decorator.
+ */
+export interface ControllerOptions {
+
+    /**
+     * Route of the endpoint which serves controller methods, relative to the route prefix, e.g. "/billing".
+     * Methods are only executed for requests sent to this route, and they are described only in its OpenRPC document.
+     * Controllers without route are served on the root route (the route prefix itself).
+     */
+    route?: string;
+
+    /**
+     * Registry the controller is bound to, created with createRegistry function.
+     * Bound controller is registered in this registry only, so applications without it don't see the controller.
+     * Metadata of the class is copied when @Controller decorator is applied, so it must be the outermost decorator.
+     */
+    registry?: MetadataArgsStorage;
+
+}
@@ -0,0 +1,12 @@
+/**
+ * Options of the @CurrentUser decorator.
+ */
+export interface CurrentUserOptions {
+
+    /**
+     * Indicates if method can be executed only if request has current user.
+     * AuthorizationRequiredError is responded otherwise.
+     */
+    required?: boolean;
+
+}
@@ -0,0 +1,37 @@
+import {ClassTransformOptions} from "class-transformer";
+import {ValidatorOptions} from "class-validator";
+import {Action} from "../Action";
+import {MethodMetadata} from "../metadata/MethodMetadata";
+
+/**
+ * Options of the custom parameter decorator created with createParamDecorator.
+ */
+export interface CustomParamOptions {
+
+    /**
+     * Gets (or resolves to) value of the parameter for the executed method.
+     */
+    value: (action: Action, method: MethodMetadata) => Promise<any> | any;
+
+    /**
+     * Indicates if method can be executed only if parameter value isn't empty.
+     * InvalidParamsError is responded otherwise.
+     */
+    required?: boolean;
+
+    /**
+     * Class transform options used to transform parameter value into the class of the parameter type.
+     */
+    transform?: ClassTransformOptions;
+
+    /**
+     * Indicates if parameter value should be validated with class-validator, or validator options to validate it with.
+     */
+    validate?: boolean | ValidatorOptions;
+
+    /**
+     * Explicit type of the parameter, used when it can't be reflected, e.g. for interfaces.
+     */
+    type?: any;
+
+}
@@ -0,0 +1,11 @@
+/**
+ * Error handler decorator options.
+ */
+export interface ErrorHandlerOptions {
+
+    /**
+     * Execution priority of the error handler. Handlers with higher priority are executed first.
+     */
+    priority?: number;
+
+}
@@ -0,0 +1,15 @@
+/**
+ * Options of the @Method decorator.
+ */
+export interface MethodOptions {
+
+    /**
+     * Maps request params onto method arguments which aren't marked with param decorators:
+     * by their positions if params are an array, or by argument names if params are an object.
+     * Names of the arguments can be given, names ending with "?" are optional. Otherwise they are reflected from
+     * the method signature, which isn't possible if code is minified, and all reflected arguments are optional.
+     * Set to false to disable params mapping enabled with autoParams application option.
+     */
+    params?: boolean | string[];
+
+}
@@ -1,10 +1,10 @@
 import {ClassTransformOptions} from "class-transformer";
-import {ValidationOptions} from "class-validator";
+import {ValidatorOptions} from "class-validator";
 
 export interface ParamOptions {
     required?: boolean;
     transform?: ClassTransformOptions;
-    validate?: boolean | ValidationOptions;
+    validate?: boolean | ValidatorOptions;
     type?: any;
     options?: any;
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+import {getMetadataArgsStorage} from "../index";
+
+/**
+ * Marks controller method to be executed only if request is authorized by the authorizationChecker.
+ * Roles required to execute the method can be given, they are passed to the authorizationChecker.
+ * Can be used on a controller class to apply it to all its methods.
+ */
+export function Authorized(roleOrRoles?: any | any[]): Function {
+    return function (objectOrFunction: Object | Function, methodName?: string) {
+        getMetadataArgsStorage().responseHandlers.push({
+            type: "authorized",
+            target: methodName ? objectOrFunction.constructor : objectOrFunction as Function,
+            method: methodName,
+            value: roleOrRoles
+        });
+    };
+}
@@ -0,0 +1,18 @@
+import {getMetadataArgsStorage} from "../index";
+
+/**
+ * Injects connection which request came through.
+ * Works only with persistent transports, like WebSocket.
+ */
+export function Connection(): Function {
+    return function (object: Object, methodName: string, index: number) {
+        getMetadataArgsStorage().params.push({
+            type: "connection",
+            object: object,
+            method: methodName,
+            index: index,
+            parse: false,
+            required: false
+        });
+    };
+}
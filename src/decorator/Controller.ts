@@ -1,10 +1,22 @@
 import { getMetadataArgsStorage } from "../index";
+import { ControllerOptions } from "../decorator-options/ControllerOptions";
+import { ControllerMetadataArgs } from "../metadata/args/ControllerMetadataArgs";
 
-export function Controller(baseName?: string): Function {
+export function Controller(baseName?: string, options?: ControllerOptions): Function {
     return function (object: Function) {
-        getMetadataArgsStorage().controllers.push({
+        const args: ControllerMetadataArgs = {
             name: baseName,
-            target: object
-        });
+            target: object,
+            route: options ? options.route : undefined
+        };
+
+        // controller bound to a registry isn't registered globally, so only applications of this registry see it
+        if (options && options.registry) {
+            options.registry.controllers.push(args);
+            options.registry.register([object]);
+            return;
+        }
+
+        getMetadataArgsStorage().controllers.push(args);
     };
-}
\ No newline at end of file
+}
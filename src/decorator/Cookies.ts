@@ -0,0 +1,17 @@
+import {getMetadataArgsStorage} from "../index";
+
+/**
+ * Injects all cookies of the request as an object.
+ */
+export function Cookies(): Function {
+    return function (object: Object, methodName: string, index: number) {
+        getMetadataArgsStorage().params.push({
+            type: "cookies",
+            object: object,
+            method: methodName,
+            index: index,
+            parse: false,
+            required: false
+        });
+    };
+}
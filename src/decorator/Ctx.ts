@@ -0,0 +1,17 @@
+import {getMetadataArgsStorage} from "../index";
+
+/**
+ * Injects context in which method is executed, e.g. koa context or context given to the Application.handle.
+ */
+export function Ctx(): Function {
+    return function (object: Object, methodName: string, index: number) {
+        getMetadataArgsStorage().params.push({
+            type: "context",
+            object: object,
+            method: methodName,
+            index: index,
+            parse: false,
+            required: false
+        });
+    };
+}
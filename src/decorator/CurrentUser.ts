@@ -0,0 +1,18 @@
+import {getMetadataArgsStorage} from "../index";
+import {CurrentUserOptions} from "../decorator-options/CurrentUserOptions";
+
+/**
+ * Injects current user of the request, which is resolved by the currentUserChecker.
+ */
+export function CurrentUser(options?: CurrentUserOptions): Function {
+    return function (object: Object, methodName: string, index: number) {
+        getMetadataArgsStorage().params.push({
+            type: "current-user",
+            object: object,
+            method: methodName,
+            index: index,
+            parse: false,
+            required: options ? options.required : undefined
+        });
+    };
+}
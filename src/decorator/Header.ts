@@ -0,0 +1,23 @@
+import {getMetadataArgsStorage} from "../index";
+import {ParamOptions} from "../decorator-options/ParamOptions";
+
+/**
+ * Injects value of the request header with the given name. Header name is case-insensitive.
+ */
+export function Header(name: string, options?: ParamOptions): Function {
+    return function (object: Object, methodName: string, index: number) {
+        getMetadataArgsStorage().params.push({
+            type: "header",
+            object: object,
+            method: methodName,
+            index: index,
+            name: name,
+            parse: false,
+            required: options ? options.required : undefined,
+            classTransform: options ? options.transform : undefined,
+            validate: options ? options.validate : undefined,
+            explicitType: options ? options.type : undefined,
+            extraOptions: options ? options.options : undefined
+        });
+    };
+}
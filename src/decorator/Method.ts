@@ -1,11 +1,17 @@
 import {getMetadataArgsStorage} from "../index";
+import {MethodOptions} from "../decorator-options/MethodOptions";
 
-export function Method(name: string): Function {
+/**
+ * Registers controller method with the given name.
+ * Name can be a regexp or contain "*" wildcards, then method is executed for all matching names.
+ */
+export function Method(name: string | RegExp, options?: MethodOptions): Function {
     return function (object: Object, methodName: string) {
         getMetadataArgsStorage().methods.push({
             target: object.constructor,
             method: methodName,
-            name: name
+            name: name,
+            params: options ? options.params : undefined
         });
     };
-}
\ No newline at end of file
+}
@@ -0,0 +1,17 @@
+import {getMetadataArgsStorage} from "../index";
+
+/**
+ * Injects array of groups captured from the called method name by the regexp or wildcard name of the method.
+ */
+export function MethodMatch(): Function {
+    return function (object: Object, methodName: string, index: number) {
+        getMetadataArgsStorage().params.push({
+            type: "method-match",
+            object: object,
+            method: methodName,
+            index: index,
+            parse: false,
+            required: false
+        });
+    };
+}
@@ -1,14 +1,18 @@
 import {getMetadataArgsStorage} from "../index";
 import {ParamOptions} from "../decorator-options/ParamOptions";
 
-export function Param(name: string, options?: ParamOptions): Function {
+/**
+ * Injects request param with the given name, or with the given position if params are sent as an array.
+ */
+export function Param(nameOrPosition: string | number, options?: ParamOptions): Function {
     return function (object: Object, methodName: string, index: number) {
         getMetadataArgsStorage().params.push({
             type: "param",
             object: object,
             method: methodName,
             index: index,
-            name: name,
+            name: typeof nameOrPosition === "string" ? nameOrPosition : undefined,
+            position: typeof nameOrPosition === "number" ? nameOrPosition : undefined,
             parse: false,
             required: options ? options.required : undefined,
             classTransform: options ? options.transform : undefined,
@@ -17,4 +21,4 @@ export function Param(name: string, options?: ParamOptions): Function {
             extraOptions: options ? options.options : undefined
         });
     };
-}
\ No newline at end of file
+}
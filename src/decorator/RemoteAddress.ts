@@ -0,0 +1,17 @@
+import {getMetadataArgsStorage} from "../index";
+
+/**
+ * Injects IP address of the client which sent the request.
+ */
+export function RemoteAddress(): Function {
+    return function (object: Object, methodName: string, index: number) {
+        getMetadataArgsStorage().params.push({
+            type: "remote-address",
+            object: object,
+            method: methodName,
+            index: index,
+            parse: false,
+            required: false
+        });
+    };
+}
@@ -0,0 +1,15 @@
+import {getMetadataArgsStorage} from "../index";
+import {ErrorHandlerOptions} from "../decorator-options/ErrorHandlerOptions";
+
+/**
+ * Registers a global error handler, which handles errors of all methods.
+ * Class must implement ErrorHandlerInterface.
+ */
+export function RpcErrorHandler(options?: ErrorHandlerOptions): Function {
+    return function (target: Function) {
+        getMetadataArgsStorage().errorHandlers.push({
+            target: target,
+            priority: options && options.priority ? options.priority : 0
+        });
+    };
+}
@@ -0,0 +1,17 @@
+import {getMetadataArgsStorage} from "../index";
+
+/**
+ * Registers controller method as a subscription topic.
+ * Clients subscribe to it with "rpc.on" method, and the method is executed on every subscribe with its params,
+ * so it can validate params or reject subscription by throwing an error.
+ */
+export function Subscription(name: string): Function {
+    return function (object: Object, methodName: string) {
+        getMetadataArgsStorage().methods.push({
+            target: object.constructor,
+            method: methodName,
+            name: name,
+            subscription: true
+        });
+    };
+}
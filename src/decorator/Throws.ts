@@ -0,0 +1,20 @@
+import {getMetadataArgsStorage} from "../index";
+import {RpcError} from "../rpc-error/RpcError";
+
+/**
+ * Declares errors that can be responded by the controller method.
+ * Accepts error classes (e.g. InvalidParamsError) or error instances with a custom code and message.
+ * Declared errors are used only to describe the method, e.g. in the OpenRPC document.
+ */
+export function Throws(...errors: Array<RpcError | Function>): Function {
+    return function (object: Object, methodName: string) {
+        errors.forEach(error => {
+            getMetadataArgsStorage().responseHandlers.push({
+                type: "throws",
+                target: object.constructor,
+                method: methodName,
+                value: error instanceof Function ? new (error as any)() : error
+            });
+        });
+    };
+}
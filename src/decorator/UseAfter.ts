@@ -0,0 +1,18 @@
+import {getMetadataArgsStorage} from "../index";
+
+/**
+ * Specifies middlewares whose "after" hook is executed after the controller method.
+ * Can be used on a controller class to apply middlewares to all its methods.
+ */
+export function UseAfter(...middlewares: Function[]): Function {
+    return function (objectOrFunction: Object | Function, methodName?: string) {
+        middlewares.forEach(middleware => {
+            getMetadataArgsStorage().uses.push({
+                target: methodName ? objectOrFunction.constructor : objectOrFunction as Function,
+                method: methodName,
+                middleware: middleware,
+                afterAction: true
+            });
+        });
+    };
+}
@@ -0,0 +1,17 @@
+import {getMetadataArgsStorage} from "../index";
+
+/**
+ * Specifies error handlers which handle errors of the controller method before global ones.
+ * Can be used on a controller class to apply error handlers to all its methods.
+ */
+export function UseErrorHandler(...errorHandlers: Function[]): Function {
+    return function (objectOrFunction: Object | Function, methodName?: string) {
+        errorHandlers.forEach(errorHandler => {
+            getMetadataArgsStorage().errorHandlerUses.push({
+                target: methodName ? objectOrFunction.constructor : objectOrFunction as Function,
+                method: methodName,
+                errorHandler: errorHandler
+            });
+        });
+    };
+}
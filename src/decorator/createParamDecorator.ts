@@ -0,0 +1,23 @@
+import {getMetadataArgsStorage} from "../index";
+import {CustomParamOptions} from "../decorator-options/CustomParamOptions";
+
+/**
+ * Creates parameter decorator which injects value given by the options.
+ * Value is handled like values of the built-in params: it's checked if it's required, transformed and validated.
+ */
+export function createParamDecorator(options: CustomParamOptions): Function {
+    return function (object: Object, methodName: string, index: number) {
+        getMetadataArgsStorage().params.push({
+            type: "custom",
+            object: object,
+            method: methodName,
+            index: index,
+            parse: false,
+            required: options.required,
+            value: options.value,
+            classTransform: options.transform,
+            validate: options.validate,
+            explicitType: options.type
+        });
+    };
+}
@@ -1,11 +1,16 @@
 import {classToPlain, ClassTransformOptions} from "class-transformer";
+import {ValidatorOptions} from "class-validator";
 
 import {MethodMetadata} from "../metadata/MethodMetadata";
 import {ParamMetadata} from "../metadata/ParamMetadata";
+import {ParamType} from "../metadata/types/ParamType";
 import {Action} from "../Action";
 import {RpcError} from "../rpc-error/RpcError";
 import {InternalError} from "../rpc-error/InternalError";
 import {ServerError} from "../rpc-error/ServerError";
+import {AuthorizationRequiredError} from "../rpc-error/AuthorizationRequiredError";
+import {AccessDeniedError} from "../rpc-error/AccessDeniedError";
+import {normalizeRoute} from "../helpers/normalizeRoute";
 
 /**
  * Base driver functionality for all other drivers.
@@ -36,7 +41,17 @@ export abstract class BaseDriver {
     plainToClassTransformOptions: ClassTransformOptions;
 
     /**
-     * Indicates if default routing-controllers error handler should be used or not.
+     * Indicates if class-validator should be used to auto validate objects injected into params.
+     */
+    enableValidation: boolean;
+
+    /**
+     * Global class-validator options passed during validate operation.
+     */
+    validationOptions: ValidatorOptions;
+
+    /**
+     * Indicates if default error handler should be used or not.
      */
     isDefaultErrorHandlingEnabled: boolean;
 
@@ -56,6 +71,26 @@ export abstract class BaseDriver {
      */
     cors?: boolean | Object;
 
+    /**
+     * Maximum size of the request body in bytes.
+     */
+    bodyLimit?: number;
+
+    /**
+     * Indicates if failed authorization of a single request should be responded with 401 or 403 HTTP status.
+     */
+    authorizationHttpStatus: boolean = false;
+
+    /**
+     * Resolves current user of the request, which is injected into @CurrentUser params.
+     */
+    currentUserChecker?: (action: Action) => Promise<any> | any;
+
+    /**
+     * Param types which can't be injected by this driver, because its transport has no such concept.
+     */
+    unsupportedParamTypes: ParamType[] = [];
+
     /**
      * Initializes the things driver needs before routes and middleware registration.
      */
@@ -64,7 +99,7 @@ export abstract class BaseDriver {
     /**
      * Registers method in the driver.
      */
-    abstract registerMethod(methods: MethodMetadata[], executeCallback: (error: any, action: Action, method?: MethodMetadata) => any): void;
+    abstract registerMethod(methods: MethodMetadata[], executeCallback: (error: any, action: Action, payload?: any) => Promise<any>): void;
 
     /**
      * Registers all routes in the framework.
@@ -76,15 +111,28 @@ export abstract class BaseDriver {
      */
     abstract getParamFromRequest(methodOptions: Action, param: ParamMetadata): any;
 
+    /**
+     * Throws an error if any param of the given methods can't be injected by this driver.
+     */
+    checkParams(methods: MethodMetadata[]): void {
+        methods.forEach(method => {
+            const param = method.params.find(param => this.unsupportedParamTypes.indexOf(param.type) !== -1);
+            if (param)
+                throw new Error(`"${param.type}" param of the ${method.target.name}.${method.method} method can't be injected by ${(this.constructor as any).name}.`);
+        });
+    }
+
     /**
      * Defines an algorithm of how to handle error during executing controller method.
+     * Returns error object to be responded.
      */
     abstract handleError(error: any, action: Action): any;
 
     /**
      * Defines an algorithm of how to handle success result of executing controller method.
+     * Returns result to be responded.
      */
-    abstract handleSuccess(result: any, method: MethodMetadata, action: Action): void;
+    abstract handleSuccess(result: any, method: MethodMetadata, action: Action): any;
 
     // -------------------------------------------------------------------------
     // Protected Methods
@@ -106,13 +154,37 @@ export abstract class BaseDriver {
             result = classToPlain(result, action);
         } else if (result instanceof Buffer || result instanceof Uint8Array) { // check if it's binary data (typed array)
             result = new Buffer(result as any).toString("binary");
-        } else if (result.pipe instanceof Function) {
+        } else if (result != null && result.pipe instanceof Function) {
             result.pipe(action.response);
         }
 
         return result;
     }
 
+    /**
+     * Gets route of the endpoint the request is sent to from the given request url, relative to the route prefix.
+     */
+    protected getRoute(url: string): string {
+        const path = (url || "/").split("?")[0];
+        return normalizeRoute(path.indexOf(this.routePrefix) === 0 ? path.substr(this.routePrefix.length) : path);
+    }
+
+    /**
+     * Gets HTTP status to respond the given response payload with, if it differs from the default one.
+     */
+    protected getResponseHttpStatus(content: any): number | undefined {
+        if (!this.authorizationHttpStatus || !(content instanceof Object) || content instanceof Array || !content.error)
+            return undefined;
+
+        if (content.error.code === new AuthorizationRequiredError().rpcCode)
+            return 401;
+
+        if (content.error.code === new AccessDeniedError().rpcCode)
+            return 403;
+
+        return undefined;
+    }
+
     protected processJsonError(error: any) {
 
         let processedError: any = {};
@@ -123,7 +195,7 @@ export abstract class BaseDriver {
                 processedError.message = error.message;
 
             processedError.data = {};
-            if (error.stack && this.developmentMode)
+            if (this.developmentMode && error.stack)
                 processedError.data.stack = error.stack;
 
             Object.keys(error)
@@ -138,7 +210,7 @@ export abstract class BaseDriver {
                 processedError.message = error.message;
 
             processedError.data = {};
-            if (error.stack && this.developmentMode)
+            if (this.developmentMode && error.stack)
                 processedError.data.stack = error.stack;
 
             Object.keys(error)
@@ -152,7 +224,7 @@ export abstract class BaseDriver {
                 processedError.message = error.message;
 
             processedError.data = {};
-            if (error.stack && this.developmentMode)
+            if (this.developmentMode && error.stack)
                 processedError.data.stack = error.stack;
 
             Object.keys(error)
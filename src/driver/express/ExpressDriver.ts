@@ -3,9 +3,10 @@ import {Action} from "../../Action";
 import {ParamMetadata} from "../../metadata/ParamMetadata";
 import {BaseDriver} from "../BaseDriver";
 import {MethodNotAllowedError} from "../../http-error/MethodNotAllowedError";
-import {MethodNotFoundError} from "../../rpc-error/MethodNotFoundError";
 import {ParseError} from "../../rpc-error/ParseError";
 import {InvalidRequestError} from "../../rpc-error/InvalidRequestError";
+import {parseCookies} from "../../helpers/parseCookies";
+import {getRequestParam} from "../../helpers/getRequestParam";
 
 /**
  * Integration with express framework.
@@ -45,42 +46,38 @@ export class ExpressDriver extends BaseDriver {
     /**
      * Registers action in the driver.
      */
-    registerMethod(methods: MethodMetadata[], executeCallback: (error: any, action: Action, method?: MethodMetadata) => any): void {
+    registerMethod(methods: MethodMetadata[], executeCallback: (error: any, action: Action, payload?: any) => Promise<any>): void {
 
         // middlewares required for this method
         const defaultMiddlewares: any[] = [];
 
-        defaultMiddlewares.push(this.loadBodyParser().json());
+        // any JSON value is parsed, so values other than objects and arrays are invalid requests
+        defaultMiddlewares.push(this.loadBodyParser().json({limit: this.bodyLimit, strict: false}));
 
-        defaultMiddlewares.push(function (err: any, request: any, response: any, next: Function) {
+        defaultMiddlewares.push((err: any, request: any, response: any, next: Function) => {
             if (err) {
-                return executeCallback(new ParseError(), {request, response, next});
+                const action: Action = {request, response, next, route: this.getRoute(request.originalUrl)};
+
+                if (err.type === "entity.too.large") {
+                    response.status(413);
+                    return this.sendResponse(executeCallback(new InvalidRequestError(`Request body is larger than ${err.limit} bytes`), action), action);
+                }
+
+                return this.sendResponse(executeCallback(new ParseError(), action), action);
             }
         });
 
         // prepare route and route handler function
         const route = this.routePrefix + "*";
-        const routeHandler = function routeHandler(request: any, response: any, next: Function) {
-            const action = {request, response, next};
-            // todo batch requests
-
-            const method: MethodMetadata = methods.find((methodMetadata) => methodMetadata.fullName === request.body.method);
+        const routeHandler = (request: any, response: any, next: Function) => {
+            const action: Action = {request, response, next, route: this.getRoute(request.originalUrl)};
 
             if (request.method.toLowerCase() !== "post") {
-
-                return next(method, action, new MethodNotAllowedError());
-            } else if (!request.body || typeof request.body !== "object") {
-
-                return executeCallback(new ParseError(), action, method);
-            } else if (!request.body.params) {
-
-                return executeCallback(new InvalidRequestError(), action, method);
-            } else if (!request.body.method || !method) {
-
-                return executeCallback(new MethodNotFoundError(), action, method);
+                const error = new MethodNotAllowedError();
+                return response.status(error.httpCode).set("Allow", "POST").end();
             }
 
-            return executeCallback(null, action, method);
+            return this.sendResponse(executeCallback(null, action, request.body), action);
         };
 
         // finally register method in express
@@ -101,19 +98,40 @@ export class ExpressDriver extends BaseDriver {
      * Gets param from the request.
      */
     getParamFromRequest(action: Action, param: ParamMetadata): any {
-        const request: any = action.request;
+        const payload: any = action.payload;
         switch (param.type) {
             case "request-id":
-                return request.body.id;
+                return payload.id;
 
             case "method":
-                return request.body.method;
+                return payload.method;
 
             case "param":
-                return request.body.params[param.name];
+                return getRequestParam(payload.params, param);
 
             case "params":
-                return request.body.params;
+                return payload.params;
+
+            case "request":
+                return action.request;
+
+            case "response":
+                return action.response;
+
+            case "context":
+                return action.context;
+
+            case "header":
+                return action.request.headers[param.name.toLowerCase()];
+
+            case "cookie":
+                return this.getCookies(action)[param.name];
+
+            case "cookies":
+                return this.getCookies(action);
+
+            case "remote-address":
+                return action.request.ip;
 
         }
     }
@@ -121,12 +139,7 @@ export class ExpressDriver extends BaseDriver {
     /**
      * Handles result of successfully executed controller action.
      */
-    handleSuccess(result: any, method: MethodMetadata, action: Action): void {
-        // if the method returned the response object itself, short-circuits
-        if (result && result === action.response) {
-            action.next();
-            return;
-        }
+    handleSuccess(result: any, method: MethodMetadata, action: Action): any {
 
         // transform result if needed
         result = this.transformResult(result, method, action);
@@ -136,39 +149,52 @@ export class ExpressDriver extends BaseDriver {
             action.response.header(name, method.headers[name]);
         });
 
-        if (result === undefined) { // throw NotFoundError on undefined response
-            // todo send error
-
-        } else if (result === null) { // send null response
-            // todo send null response
-            action.next();
-        }  else { // send regular result
-            action.response.json({
-                jsonrpc: "2.0",
-                id: action.request.body.id,
-                result: result
-            });
-            action.next();
-        }
+        return result === undefined ? null : result;
     }
 
     /**
      * Handles result of failed executed controller method.
      */
     handleError(error: any, action: Action): any {
-        const response: any = action.response;
 
         // set http code
         // note that we can't use error instanceof HttpError properly anymore because of new typescript emit process
 
-        // send error content
-        response.json({
-            jsonrpc: "2.0",
-            id: null,
-            error: this.processJsonError(error),
+        return this.processJsonError(error);
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sends JSON-RPC response content once it's resolved.
+     * Nothing is sent if there is no content, e.g. request contained only notifications.
+     */
+    protected sendResponse(content: any, action: Action): Promise<void> {
+        return Promise.resolve(content).then(content => {
+            if (action.response.headersSent)
+                return;
+
+            if (content === undefined) {
+                action.response.status(204).end();
+            } else {
+                const status = this.getResponseHttpStatus(content);
+                if (status)
+                    action.response.status(status);
+
+                action.response.json(content);
+            }
         });
     }
 
+    /**
+     * Gets cookies of the request. Cookies parsed by cookie-parser middleware are used if it's installed.
+     */
+    protected getCookies(action: Action): { [name: string]: string } {
+        return action.request.cookies || parseCookies(action.request.headers["cookie"]);
+    }
+
     /**
      * Dynamically loads express module.
      */
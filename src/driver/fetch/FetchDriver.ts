@@ -0,0 +1,218 @@
+import {MethodMetadata} from "../../metadata/MethodMetadata";
+import {Action} from "../../Action";
+import {ParamMetadata} from "../../metadata/ParamMetadata";
+import {BaseDriver} from "../BaseDriver";
+import {MethodNotAllowedError} from "../../http-error/MethodNotAllowedError";
+import {PayloadTooLargeError} from "../../http-error/PayloadTooLargeError";
+import {ParseError} from "../../rpc-error/ParseError";
+import {InvalidRequestError} from "../../rpc-error/InvalidRequestError";
+import {InternalError} from "../../rpc-error/InternalError";
+import {getCorsHeaders} from "../../helpers/getCorsHeaders";
+import {parseCookies} from "../../helpers/parseCookies";
+import {getRequestParam} from "../../helpers/getRequestParam";
+
+/**
+ * Fetch API Response class provided by the runtime.
+ */
+declare const Response: any;
+
+/**
+ * Integration with runtimes which speak Fetch API (edge and serverless runtimes).
+ * Its app is a handler function which takes a standard Request and resolves to a standard Response.
+ */
+export class FetchDriver extends BaseDriver {
+
+    // -------------------------------------------------------------------------
+    // Private properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Callback which executes JSON-RPC payload, given on method registration.
+     */
+    private executeCallback: (error: any, action: Action, payload?: any) => Promise<any>;
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(private responseClass: any = typeof Response !== "undefined" ? Response : undefined) {
+        super();
+        this.unsupportedParamTypes = ["remote-address"];
+        if (!this.responseClass)
+            throw new Error("Fetch API Response class was not found. Pass it to the FetchDriver constructor.");
+
+        this.app = (request: any) => this.handle(request);
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Initializes the things driver needs before routes and middlewares registration.
+     */
+    initialize() {
+    }
+
+    /**
+     * Registers action in the driver.
+     */
+    registerMethod(methods: MethodMetadata[], executeCallback: (error: any, action: Action, payload?: any) => Promise<any>): void {
+        this.executeCallback = executeCallback;
+    }
+
+    /**
+     * Registers all routes in the framework.
+     */
+    registerRoutes() {
+    }
+
+    /**
+     * Handles given Fetch API Request and resolves to the Fetch API Response.
+     * Action's response is an object which collects status and headers of the response to be created.
+     */
+    handle(request: any): Promise<any> {
+        const path = request.url.replace(/^[a-z]+:\/\/[^\/]*/i, "").split("?")[0] || "/";
+        const action: Action = {request, response: {status: 200, headers: {}}, route: this.getRoute(path)};
+
+        if (path.indexOf(this.routePrefix) !== 0)
+            return Promise.resolve(new this.responseClass(null, {status: 404}));
+
+        if (this.cors) {
+            const headers = getCorsHeaders(this.cors, request.method, name => request.headers.get(name));
+            Object.keys(headers).forEach(name => action.response.headers[name] = headers[name]);
+            if (request.method.toLowerCase() === "options")
+                return Promise.resolve(new this.responseClass(null, {status: 204, headers: action.response.headers}));
+        }
+
+        if (request.method.toLowerCase() !== "post") {
+            const error = new MethodNotAllowedError();
+            return Promise.resolve(new this.responseClass(null, {status: error.httpCode, headers: {...action.response.headers, "Allow": "POST"}}));
+        }
+
+        // handler always resolves to a response, internal failures are responded with internal error
+        return this.readBody(request)
+            .then(body => {
+                let payload: any;
+                try {
+                    payload = JSON.parse(body);
+                } catch (e) {
+                    return this.executeCallback(new ParseError(), action);
+                }
+
+                return this.executeCallback(null, action, payload);
+            }, error => {
+                if (error instanceof PayloadTooLargeError)
+                    action.response.status = error.httpCode;
+
+                return this.executeCallback(new InvalidRequestError(error.message), action);
+            })
+            .then(content => this.createResponse(content, action))
+            .catch(() => this.createResponse(this.executeCallback(new InternalError(), action), action))
+            .catch(() => new this.responseClass(null, {status: 500}));
+    }
+
+    /**
+     * Gets param from the request.
+     */
+    getParamFromRequest(action: Action, param: ParamMetadata): any {
+        const payload: any = action.payload;
+        switch (param.type) {
+            case "request-id":
+                return payload.id;
+
+            case "method":
+                return payload.method;
+
+            case "param":
+                return getRequestParam(payload.params, param);
+
+            case "params":
+                return payload.params;
+
+            case "request":
+                return action.request;
+
+            case "response":
+                return action.response;
+
+            case "context":
+                return action.context;
+
+            case "header":
+                const header = action.request.headers.get(param.name);
+                return header === null ? undefined : header;
+
+            case "cookie":
+                return parseCookies(action.request.headers.get("cookie"))[param.name];
+
+            case "cookies":
+                return parseCookies(action.request.headers.get("cookie"));
+
+        }
+    }
+
+    /**
+     * Handles result of successfully executed controller method.
+     */
+    handleSuccess(result: any, method: MethodMetadata, action: Action): any {
+
+        // transform result if needed
+        result = this.transformResult(result, method, action);
+
+        // apply http headers
+        Object.keys(method.headers).forEach(name => {
+            action.response.headers[name] = method.headers[name];
+        });
+
+        return result === undefined ? null : result;
+    }
+
+    /**
+     * Handles result of failed executed controller method.
+     */
+    handleError(error: any, action: Action): any {
+        return this.processJsonError(error);
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates Fetch API Response with JSON-RPC response content once it's resolved.
+     * Response has no body if there is no content, e.g. request contained only notifications.
+     */
+    protected createResponse(content: any, action: Action): Promise<any> {
+        return Promise.resolve(content).then(content => {
+            const headers = action.response.headers;
+            if (content === undefined)
+                return new this.responseClass(null, {status: 204, headers});
+
+            headers["Content-Type"] = "application/json; charset=utf-8";
+            const status = this.getResponseHttpStatus(content) || action.response.status;
+            return new this.responseClass(JSON.stringify(content), {status, headers});
+        });
+    }
+
+    /**
+     * Reads request body as a string.
+     * Rejects with PayloadTooLargeError if body is larger than the limit.
+     */
+    protected readBody(request: any): Promise<string> {
+        const limit = this.bodyLimit !== undefined ? this.bodyLimit : 100 * 1024;
+        const error = new PayloadTooLargeError(`Request body is larger than ${limit} bytes`);
+
+        if (+request.headers.get("content-length") > limit)
+            return Promise.reject(error);
+
+        return request.text().then((body: string) => {
+            const length = typeof Buffer !== "undefined" ? Buffer.byteLength(body) : body.length;
+            if (length > limit)
+                throw error;
+
+            return body;
+        });
+    }
+
+}
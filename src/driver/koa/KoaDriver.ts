@@ -2,10 +2,11 @@ import {MethodMetadata} from "../../metadata/MethodMetadata";
 import {Action} from "../../Action";
 import {ParamMetadata} from "../../metadata/ParamMetadata";
 import {BaseDriver} from "../BaseDriver";
-import {MethodNotAllowedError} from "../../http-error/MethodNotAllowedError";
-import {MethodNotFoundError} from "../../rpc-error/MethodNotFoundError";
 import {ParseError} from "../../rpc-error/ParseError";
 import {InvalidRequestError} from "../../rpc-error/InvalidRequestError";
+import {InternalError} from "../../rpc-error/InternalError";
+import {parseCookies} from "../../helpers/parseCookies";
+import {getRequestParam} from "../../helpers/getRequestParam";
 
 /**
  * Integration with koa framework.
@@ -25,7 +26,12 @@ export class KoaDriver extends BaseDriver {
     initialize() {
         const bodyParser = require("koa-bodyparser");
         this.koa.use(bodyParser({
-            enableTypes: ["json"]
+            enableTypes: ["json"],
+            jsonLimit: this.bodyLimit,
+            strict: false, // any JSON value is parsed, so values other than objects and arrays are invalid requests
+            onerror: (error: any, context: any) => { // body is left empty, so route handler responds with error
+                context.state.bodyParserError = error;
+            }
         }));
         if (this.cors) {
             const cors = require("kcors");
@@ -42,45 +48,39 @@ export class KoaDriver extends BaseDriver {
     /**
      * Registers action in the driver.
      */
-    registerMethod(methods: MethodMetadata[], executeCallback: (error: any, action: Action, method?: MethodMetadata) => any): void {
+    registerMethod(methods: MethodMetadata[], executeCallback: (error: any, action: Action, payload?: any) => Promise<any>): void {
 
         // prepare route and route handler function
         const route = this.routePrefix + "*";
-        const errorHandler = async (request: any, next: Function) => {
-            try {
-                await next();
-            } catch (e) {
-                console.log(e);
-            }
-        };
         const routeHandler = (context: any, next: () => Promise<any>) => {
-            const action: Action = {request: context.request, response: context.response, context, next};
-            const method: MethodMetadata = methods.find((methodMetadata) => methodMetadata.fullName === action.request.body.method);
+            const action: Action = {request: context.request, response: context.response, context, next, route: this.getRoute(context.originalUrl)};
+            const body = action.request.body;
+            const bodyParserError = context.state.bodyParserError;
+            if (action.request.method.toLowerCase() !== "post")
+                return next();
+
+            // only body parser errors are parse errors, any other failure is responded with internal error
+            let content: Promise<any>;
             try {
-                if (action.request.method.toLowerCase() !== "post") {
-
-                    return next();
-                } else if (!action.request.body || typeof action.request.body !== "object") {
-
-                    return executeCallback(new ParseError(), action, method);
-                } else if (!action.request.body.params) {
-
-                    return executeCallback(new InvalidRequestError(), action, method);
-                } else if (!action.request.body.method || !method) {
-
-                    return executeCallback(new MethodNotFoundError(), action, method);
+                if (bodyParserError && bodyParserError.type === "entity.too.large") {
+                    context.status = 413;
+                    content = executeCallback(new InvalidRequestError(`Request body is larger than ${bodyParserError.limit} bytes`), action);
+                } else if (bodyParserError) {
+                    content = executeCallback(new ParseError(), action);
+                } else {
+                    content = executeCallback(null, action, body);
                 }
-
-                return executeCallback(null, action, method);
-            } catch (e) {
-                return executeCallback(new ParseError(), action, method);
+            } catch (error) {
+                content = Promise.reject(error);
             }
+
+            return this.sendResponse(content, action)
+                .catch(() => this.sendResponse(executeCallback(new InternalError(), action), action));
         };
 
         // finally register action in koa
         this.router.all(...[
             route,
-            errorHandler,
             routeHandler,
         ]);
     }
@@ -97,20 +97,40 @@ export class KoaDriver extends BaseDriver {
      * Gets param from the request.
      */
     getParamFromRequest(actionOptions: Action, param: ParamMetadata): any {
-        const context = actionOptions.context;
-        const request: any = actionOptions.request;
+        const payload: any = actionOptions.payload;
         switch (param.type) {
             case "method":
-                return request.body.method;
+                return payload.method;
 
             case "request-id":
-                return request.body.id;
+                return payload.id;
 
             case "param":
-                return request.body.params[param.name];
+                return getRequestParam(payload.params, param);
 
             case "params":
-                return request.body.params;
+                return payload.params;
+
+            case "request":
+                return actionOptions.request;
+
+            case "response":
+                return actionOptions.response;
+
+            case "context":
+                return actionOptions.context;
+
+            case "header":
+                return actionOptions.request.headers[param.name.toLowerCase()];
+
+            case "cookie":
+                return parseCookies(actionOptions.request.headers["cookie"])[param.name];
+
+            case "cookies":
+                return parseCookies(actionOptions.request.headers["cookie"]);
+
+            case "remote-address":
+                return actionOptions.context.ip;
 
         }
     }
@@ -118,60 +138,46 @@ export class KoaDriver extends BaseDriver {
     /**
      * Handles result of successfully executed controller action.
      */
-    handleSuccess(result: any, method: MethodMetadata, action: Action): void {
-
-        // if the action returned the context or the response object itself, short-circuits
-        if (result && (result === action.response || result === action.context)) {
-            return action.next();
-        }
+    handleSuccess(result: any, method: MethodMetadata, action: Action): any {
 
         // transform result if needed
         result = this.transformResult(result, method, action);
 
-        if (result === undefined) { // throw NotFoundError on undefined response
-
-        }
-        // todo send null response
-
-        // todo set http status code
-
         // apply http headers
         Object.keys(method.headers).forEach(name => {
             action.response.set(name, method.headers[name]);
         });
 
-        if (result === undefined) { // throw NotFoundError on undefined response
-            // todo send error
-
-        } else if (result === null) { // send null response
-            // todo send null response
-            action.next();
-        } else { // send regular result
-            action.response.body = {
-                jsonrpc: "2.0",
-                id: action.request.body.id,
-                result: result
-            };
-            action.next();
-        }
+        return result === undefined ? null : result;
     }
 
     /**
      * Handles result of failed executed controller action.
      */
-    handleError(error: any, action: Action) {
-        return new Promise((resolve, reject) => {
-            if (true) {
+    handleError(error: any, action: Action): any {
+        return this.processJsonError(error);
+    }
 
-                // send error content
-                console.log("aasf");
-                action.response.body = this.processJsonError(error);
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
 
-                // todo set http status
+    /**
+     * Sends JSON-RPC response content once it's resolved.
+     * Nothing is sent if there is no content, e.g. request contained only notifications.
+     */
+    protected sendResponse(content: any, action: Action): Promise<void> {
+        return Promise.resolve(content).then(content => {
+            if (content === undefined) {
+                if (action.context.body === undefined)
+                    action.context.status = 204;
+            } else {
+                action.context.body = content;
 
-                return resolve();
+                const status = this.getResponseHttpStatus(content);
+                if (status)
+                    action.context.status = status;
             }
-            // return reject(error);
         });
     }
 
@@ -0,0 +1,230 @@
+import {MethodMetadata} from "../../metadata/MethodMetadata";
+import {Action} from "../../Action";
+import {ParamMetadata} from "../../metadata/ParamMetadata";
+import {BaseDriver} from "../BaseDriver";
+import {MethodNotAllowedError} from "../../http-error/MethodNotAllowedError";
+import {PayloadTooLargeError} from "../../http-error/PayloadTooLargeError";
+import {ParseError} from "../../rpc-error/ParseError";
+import {InvalidRequestError} from "../../rpc-error/InvalidRequestError";
+import {InternalError} from "../../rpc-error/InternalError";
+import {getCorsHeaders} from "../../helpers/getCorsHeaders";
+import {parseCookies} from "../../helpers/parseCookies";
+import {getRequestParam} from "../../helpers/getRequestParam";
+
+/**
+ * Integration with plain node http (or https) server, without any framework.
+ */
+export class NodeHttpDriver extends BaseDriver {
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(public server?: any) {
+        super();
+        this.loadServer();
+        this.app = this.server;
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Initializes the things driver needs before routes and middlewares registration.
+     */
+    initialize() {
+    }
+
+    /**
+     * Registers action in the driver.
+     */
+    registerMethod(methods: MethodMetadata[], executeCallback: (error: any, action: Action, payload?: any) => Promise<any>): void {
+        this.server.on("request", (request: any, response: any) => {
+            const path = (request.url || "/").split("?")[0];
+            const action: Action = {request, response, route: this.getRoute(path)};
+
+            if (path.indexOf(this.routePrefix) !== 0) {
+                response.writeHead(404);
+                return response.end();
+            }
+
+            if (this.cors) {
+                const headers = getCorsHeaders(this.cors, request.method, name => request.headers[name]);
+                Object.keys(headers).forEach(name => response.setHeader(name, headers[name]));
+                if (request.method.toLowerCase() === "options") {
+                    response.writeHead(204);
+                    return response.end();
+                }
+            }
+
+            if (request.method.toLowerCase() !== "post") {
+                const error = new MethodNotAllowedError();
+                response.writeHead(error.httpCode, {"Allow": "POST"});
+                return response.end();
+            }
+
+            return this.readBody(request)
+                .then(body => {
+                    let payload: any;
+                    try {
+                        payload = JSON.parse(body);
+                    } catch (e) {
+                        return executeCallback(new ParseError(), action);
+                    }
+
+                    return executeCallback(null, action, payload);
+                }, error => {
+                    if (error instanceof PayloadTooLargeError)
+                        response.statusCode = error.httpCode;
+
+                    return executeCallback(new InvalidRequestError(error.message), action);
+                })
+                .then(content => this.sendResponse(content, action))
+                .catch(() => this.sendResponse(executeCallback(new InternalError(), action), action))
+                .catch(() => {
+                    response.statusCode = 500;
+                    response.end();
+                });
+        });
+    }
+
+    /**
+     * Registers all routes in the framework.
+     */
+    registerRoutes() {
+    }
+
+    /**
+     * Gets param from the request.
+     */
+    getParamFromRequest(action: Action, param: ParamMetadata): any {
+        const payload: any = action.payload;
+        switch (param.type) {
+            case "request-id":
+                return payload.id;
+
+            case "method":
+                return payload.method;
+
+            case "param":
+                return getRequestParam(payload.params, param);
+
+            case "params":
+                return payload.params;
+
+            case "request":
+                return action.request;
+
+            case "response":
+                return action.response;
+
+            case "context":
+                return action.context;
+
+            case "header":
+                return action.request.headers[param.name.toLowerCase()];
+
+            case "cookie":
+                return parseCookies(action.request.headers["cookie"])[param.name];
+
+            case "cookies":
+                return parseCookies(action.request.headers["cookie"]);
+
+            case "remote-address":
+                return action.request.socket.remoteAddress;
+
+        }
+    }
+
+    /**
+     * Handles result of successfully executed controller method.
+     */
+    handleSuccess(result: any, method: MethodMetadata, action: Action): any {
+
+        // transform result if needed
+        result = this.transformResult(result, method, action);
+
+        // apply http headers
+        Object.keys(method.headers).forEach(name => {
+            action.response.setHeader(name, method.headers[name]);
+        });
+
+        return result === undefined ? null : result;
+    }
+
+    /**
+     * Handles result of failed executed controller method.
+     */
+    handleError(error: any, action: Action): any {
+        return this.processJsonError(error);
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sends JSON-RPC response content once it's resolved.
+     * Nothing is sent if there is no content, e.g. request contained only notifications.
+     */
+    protected sendResponse(content: any, action: Action): Promise<void> {
+        return Promise.resolve(content).then(content => {
+            const response = action.response;
+            if (response.headersSent)
+                return;
+
+            if (content === undefined) {
+                response.statusCode = 204;
+                response.end();
+            } else {
+                const status = this.getResponseHttpStatus(content);
+                if (status)
+                    response.statusCode = status;
+
+                response.setHeader("Content-Type", "application/json; charset=utf-8");
+                response.end(JSON.stringify(content));
+            }
+        });
+    }
+
+    /**
+     * Reads request body as a string.
+     * Rejects with PayloadTooLargeError if body is larger than the limit.
+     */
+    protected readBody(request: any): Promise<string> {
+        const limit = this.bodyLimit !== undefined ? this.bodyLimit : 100 * 1024;
+        const error = new PayloadTooLargeError(`Request body is larger than ${limit} bytes`);
+
+        return new Promise<string>((resolve, reject) => {
+            if (+request.headers["content-length"] > limit) {
+                request.resume(); // drain request, so response can be sent
+                return reject(error);
+            }
+
+            const chunks: Buffer[] = [];
+            let length = 0;
+            request.on("data", (chunk: Buffer) => {
+                length += chunk.length;
+                if (length <= limit)
+                    chunks.push(chunk);
+            });
+            request.on("end", () => {
+                if (length > limit)
+                    return reject(error);
+
+                resolve(Buffer.concat(chunks).toString("utf8"));
+            });
+            request.on("error", reject);
+        });
+    }
+
+    /**
+     * Creates node http server if it wasn't given.
+     */
+    protected loadServer() {
+        if (!this.server)
+            this.server = require("http").createServer();
+    }
+
+}
@@ -0,0 +1,162 @@
+import {MethodMetadata} from "../../metadata/MethodMetadata";
+import {Action} from "../../Action";
+import {ParamMetadata} from "../../metadata/ParamMetadata";
+import {BaseDriver} from "../BaseDriver";
+import {ParseError} from "../../rpc-error/ParseError";
+import {createFrameReader} from "../../helpers/createFrameReader";
+import {frameMessage} from "../../helpers/frameMessage";
+import {getRequestParam} from "../../helpers/getRequestParam";
+
+/**
+ * How messages are delimited in the stream.
+ * "content-length" - LSP-style "Content-Length" header followed by the message,
+ * "newline" - newline-delimited JSON.
+ */
+export type StreamFraming = "content-length" | "newline";
+
+/**
+ * Integration with streams: process stdio, child process, net.Socket or any other readable and writable stream pair.
+ * Its app is the driver itself, so more stream pairs can be attached to it, for example on every net server connection.
+ */
+export class StreamDriver extends BaseDriver {
+
+    // -------------------------------------------------------------------------
+    // Private properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Callback which executes JSON-RPC payload, given on method registration.
+     */
+    private executeCallback: (error: any, action: Action, payload?: any) => Promise<any>;
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(public input: any = process.stdin, public output: any = input === process.stdin ? process.stdout : input, public framing: StreamFraming = "content-length") {
+        super();
+        this.unsupportedParamTypes = ["request", "response", "header", "cookie", "cookies", "remote-address"];
+        this.app = this;
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Initializes the things driver needs before routes and middlewares registration.
+     */
+    initialize() {
+    }
+
+    /**
+     * Registers action in the driver.
+     */
+    registerMethod(methods: MethodMetadata[], executeCallback: (error: any, action: Action, payload?: any) => Promise<any>): void {
+        this.executeCallback = executeCallback;
+    }
+
+    /**
+     * Registers all routes in the framework.
+     */
+    registerRoutes() {
+        if (this.input)
+            this.attach(this.input, this.output);
+    }
+
+    /**
+     * Starts to read requests from the given input stream and to write responses to the given output stream.
+     * If output stream isn't given then input stream is used, e.g. for duplex streams like net.Socket.
+     */
+    attach(input: any, output: any = input): void {
+        const send = (payload: any) => this.write(output, payload);
+        const reader = createFrameReader(this.framing);
+
+        input.on("data", (chunk: Buffer | string) => {
+            reader(chunk).forEach(message => {
+                const action: Action = {connection: input, send};
+
+                // requests are not queued, so responses are written once they are ready
+                let payload: any;
+                try {
+                    payload = JSON.parse(message);
+                } catch (e) {
+                    return this.sendResponse(this.executeCallback(new ParseError(), action), action);
+                }
+
+                return this.sendResponse(this.executeCallback(null, action, payload), action);
+            });
+        });
+    }
+
+    /**
+     * Gets param from the request.
+     */
+    getParamFromRequest(action: Action, param: ParamMetadata): any {
+        const payload: any = action.payload;
+        switch (param.type) {
+            case "request-id":
+                return payload.id;
+
+            case "method":
+                return payload.method;
+
+            case "param":
+                return getRequestParam(payload.params, param);
+
+            case "params":
+                return payload.params;
+
+            case "context":
+                return action.context;
+
+            case "connection":
+                return action.connection;
+
+        }
+    }
+
+    /**
+     * Handles result of successfully executed controller method.
+     */
+    handleSuccess(result: any, method: MethodMetadata, action: Action): any {
+
+        // transform result if needed
+        result = this.transformResult(result, method, action);
+
+        return result === undefined ? null : result;
+    }
+
+    /**
+     * Handles result of failed executed controller method.
+     */
+    handleError(error: any, action: Action): any {
+        return this.processJsonError(error);
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sends JSON-RPC response content once it's resolved.
+     * Nothing is sent if there is no content, e.g. request contained only notifications.
+     */
+    protected sendResponse(content: any, action: Action): Promise<void> {
+        return Promise.resolve(content).then(content => {
+            if (content !== undefined)
+                action.send(content);
+        });
+    }
+
+    /**
+     * Writes JSON-RPC payload to the output stream using driver's framing.
+     */
+    protected write(output: any, payload: any): void {
+        if (output.writable === false)
+            return;
+
+        output.write(frameMessage(JSON.stringify(payload), this.framing));
+    }
+
+}
@@ -0,0 +1,165 @@
+import {MethodMetadata} from "../../metadata/MethodMetadata";
+import {Action} from "../../Action";
+import {ParamMetadata} from "../../metadata/ParamMetadata";
+import {BaseDriver} from "../BaseDriver";
+import {ParseError} from "../../rpc-error/ParseError";
+import {parseCookies} from "../../helpers/parseCookies";
+import {getRequestParam} from "../../helpers/getRequestParam";
+
+/**
+ * Integration with ws (WebSocket) server.
+ * Each text frame carries a JSON-RPC request or batch, responses are sent back over the same connection.
+ */
+export class WebSocketDriver extends BaseDriver {
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(public webSocketServer?: any) {
+        super();
+        this.unsupportedParamTypes = ["response"];
+        this.loadWebSocketServer();
+        this.app = this.webSocketServer;
+    }
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Initializes the things driver needs before routes and middlewares registration.
+     */
+    initialize() {
+    }
+
+    /**
+     * Registers action in the driver.
+     */
+    registerMethod(methods: MethodMetadata[], executeCallback: (error: any, action: Action, payload?: any) => Promise<any>): void {
+        this.webSocketServer.on("connection", (connection: any, request: any) => {
+            const route = this.getRoute(request && request.url);
+            connection.on("message", (data: any) => {
+                const action: Action = {request, connection, send: (payload: any) => this.send(connection, payload), route};
+
+                // requests are not queued, so every connection can have many requests in-flight
+                let payload: any;
+                try {
+                    payload = JSON.parse(data.toString());
+                } catch (e) {
+                    return this.sendResponse(executeCallback(new ParseError(), action), action);
+                }
+
+                return this.sendResponse(executeCallback(null, action, payload), action);
+            });
+        });
+    }
+
+    /**
+     * Registers all routes in the framework.
+     */
+    registerRoutes() {
+    }
+
+    /**
+     * Gets param from the request.
+     */
+    getParamFromRequest(action: Action, param: ParamMetadata): any {
+        const payload: any = action.payload;
+        switch (param.type) {
+            case "request-id":
+                return payload.id;
+
+            case "method":
+                return payload.method;
+
+            case "param":
+                return getRequestParam(payload.params, param);
+
+            case "params":
+                return payload.params;
+
+            case "request":
+                return action.request;
+
+            case "context":
+                return action.context;
+
+            case "header":
+                return action.request.headers[param.name.toLowerCase()];
+
+            case "cookie":
+                return parseCookies(action.request.headers["cookie"])[param.name];
+
+            case "cookies":
+                return parseCookies(action.request.headers["cookie"]);
+
+            case "remote-address":
+                return action.request.socket.remoteAddress;
+
+            case "connection":
+                return action.connection;
+
+        }
+    }
+
+    /**
+     * Handles result of successfully executed controller method.
+     */
+    handleSuccess(result: any, method: MethodMetadata, action: Action): any {
+
+        // transform result if needed
+        result = this.transformResult(result, method, action);
+
+        return result === undefined ? null : result;
+    }
+
+    /**
+     * Handles result of failed executed controller method.
+     */
+    handleError(error: any, action: Action): any {
+        return this.processJsonError(error);
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Sends JSON-RPC response content over the connection once it's resolved.
+     * Nothing is sent if there is no content or connection is already closed.
+     */
+    protected sendResponse(content: any, action: Action): Promise<void> {
+        return Promise.resolve(content).then(content => {
+            if (content !== undefined)
+                this.send(action.connection, content);
+        });
+    }
+
+    /**
+     * Sends JSON-RPC payload over the connection if it's still open.
+     */
+    protected send(connection: any, payload: any): void {
+        if (connection.readyState === 1 /* OPEN */)
+            connection.send(JSON.stringify(payload));
+    }
+
+    /**
+     * Dynamically loads ws module and creates a server which isn't bound to any port.
+     * Such server should be attached to the http server "upgrade" event.
+     */
+    protected loadWebSocketServer() {
+        if (require) {
+            if (!this.webSocketServer) {
+                try {
+                    this.webSocketServer = new (require("ws").Server)({noServer: true});
+                } catch (e) {
+                    throw new Error("ws package was not found installed. Try to install it: npm install ws --save");
+                }
+            }
+        } else {
+            throw new Error("Cannot load ws. Try to install all required dependencies.");
+        }
+    }
+
+}
@@ -0,0 +1,16 @@
+import {Action} from "../Action";
+
+/**
+ * Classes that implement this interface can be used as error handlers.
+ */
+export interface ErrorHandlerInterface {
+
+    /**
+     * Called with an error thrown while handling the request. Can return a promise.
+     * Return nothing to pass the error to the next handler as is,
+     * return or throw another error (e.g. RpcError with a custom code) to pass it to the next handler instead,
+     * or return a JSON-RPC error object ({code, message, data}) to respond it, then the remaining handlers are skipped.
+     */
+    error(error: any, action: Action): any;
+
+}
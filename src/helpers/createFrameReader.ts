@@ -0,0 +1,47 @@
+import {StreamFraming} from "../driver/stream/StreamDriver";
+
+/**
+ * Creates a reader which collects stream chunks and returns complete messages delimited with the given framing.
+ * Message with invalid "Content-Length" header is returned as an empty string, so it can't be parsed.
+ */
+export function createFrameReader(framing: StreamFraming): (chunk: Buffer | string) => string[] {
+    let buffer = Buffer.alloc(0);
+    return (chunk: Buffer | string) => {
+        buffer = Buffer.concat([buffer, typeof chunk === "string" ? Buffer.from(chunk) : chunk]);
+
+        const messages: string[] = [];
+        while (framing === "newline") {
+            const lineEnd = buffer.indexOf("\n");
+            if (lineEnd === -1)
+                break;
+
+            const line = buffer.slice(0, lineEnd).toString("utf8").replace(/\r$/, "");
+            buffer = buffer.slice(lineEnd + 1);
+            if (line.trim() !== "")
+                messages.push(line);
+        }
+
+        while (framing === "content-length") {
+            const headerEnd = buffer.indexOf("\r\n\r\n");
+            if (headerEnd === -1)
+                break;
+
+            const header = buffer.slice(0, headerEnd).toString("ascii");
+            const match = header.match(/(?:^|\r\n)content-length:\s*(\d+)/i);
+            if (!match) {
+                buffer = buffer.slice(headerEnd + 4);
+                messages.push("");
+                continue;
+            }
+
+            const length = +match[1];
+            if (buffer.length < headerEnd + 4 + length)
+                break;
+
+            messages.push(buffer.slice(headerEnd + 4, headerEnd + 4 + length).toString("utf8"));
+            buffer = buffer.slice(headerEnd + 4 + length);
+        }
+
+        return messages;
+    };
+}
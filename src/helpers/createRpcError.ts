@@ -0,0 +1,57 @@
+import {RpcError} from "../rpc-error/RpcError";
+import {ParseError} from "../rpc-error/ParseError";
+import {InvalidRequestError} from "../rpc-error/InvalidRequestError";
+import {MethodNotFoundError} from "../rpc-error/MethodNotFoundError";
+import {InvalidParamsError} from "../rpc-error/InvalidParamsError";
+import {InternalError} from "../rpc-error/InternalError";
+import {ServerError} from "../rpc-error/ServerError";
+import {AuthorizationRequiredError} from "../rpc-error/AuthorizationRequiredError";
+import {AccessDeniedError} from "../rpc-error/AccessDeniedError";
+
+/**
+ * Creates RpcError of the given JSON-RPC response error object.
+ * Standard error codes are mapped to their RpcError subclasses, and error data members are set back to the error,
+ * e.g. InvalidParamsError gets its "errors" list.
+ */
+export function createRpcError(error: any): RpcError {
+    let rpcError: RpcError;
+    switch (error.code) {
+        case -32700:
+            rpcError = new ParseError(error.message);
+            break;
+        case -32600:
+            rpcError = new InvalidRequestError(error.message);
+            break;
+        case -32601:
+            rpcError = new MethodNotFoundError(error.message);
+            break;
+        case -32602:
+            rpcError = new InvalidParamsError(error.message);
+            break;
+        case -32603:
+            rpcError = new InternalError(error.message);
+            break;
+        case -32000:
+            rpcError = new ServerError(error.message);
+            break;
+        case -32001:
+            rpcError = new AuthorizationRequiredError(error.message);
+            break;
+        case -32003:
+            rpcError = new AccessDeniedError(error.message);
+            break;
+        default:
+            rpcError = new RpcError(error.code, error.message);
+    }
+
+    if (error.data instanceof Object && !(error.data instanceof Array)) {
+        Object.keys(error.data)
+            .filter(key => key !== "stack")
+            .forEach(key => (rpcError as any)[key] = error.data[key]);
+
+    } else if (error.data !== undefined) {
+        (rpcError as any).data = error.data;
+    }
+
+    return rpcError;
+}
@@ -0,0 +1,11 @@
+import {StreamFraming} from "../driver/stream/StreamDriver";
+
+/**
+ * Delimits given message with the given framing, so it can be written to a stream.
+ */
+export function frameMessage(message: string, framing: StreamFraming): string {
+    if (framing === "newline")
+        return message + "\n";
+
+    return `Content-Length: ${Buffer.byteLength(message)}\r\n\r\n${message}`;
+}
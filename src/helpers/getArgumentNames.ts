@@ -0,0 +1,15 @@
+/**
+ * Gets names of the given function arguments from its source.
+ * Names can't be reflected from minified functions, and destructured or rest arguments are skipped.
+ */
+export function getArgumentNames(fn: Function): string[] {
+    const source = fn.toString().replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, "");
+    const match = source.match(/^[^(]*\(([^)]*)\)/);
+    if (!match)
+        return [];
+
+    return match[1]
+        .split(",")
+        .map(argument => argument.replace(/=[\s\S]*$/, "").trim())
+        .filter(argument => /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(argument));
+}
@@ -0,0 +1,43 @@
+/**
+ * Computes CORS headers to be responded for the given request.
+ * Supports the most of the cors package options: origin, methods, allowedHeaders, exposedHeaders, credentials and maxAge.
+ * Preflight headers are computed only for OPTIONS requests.
+ */
+export function getCorsHeaders(cors: boolean | Object, method: string, getHeader: (name: string) => string): { [name: string]: string } {
+    const options: any = cors === true ? {} : cors;
+    const headers: { [name: string]: string } = {};
+    const requestOrigin = getHeader("origin");
+
+    let origin: string;
+    if (options.origin === undefined || options.origin === "*") {
+        origin = "*";
+    } else if (options.origin === true) {
+        origin = requestOrigin;
+    } else if (options.origin instanceof Array) {
+        origin = options.origin.indexOf(requestOrigin) !== -1 ? requestOrigin : undefined;
+    } else if (typeof options.origin === "string") {
+        origin = options.origin;
+    }
+
+    if (origin) {
+        headers["Access-Control-Allow-Origin"] = origin;
+        if (origin !== "*")
+            headers["Vary"] = "Origin";
+    }
+    if (options.credentials)
+        headers["Access-Control-Allow-Credentials"] = "true";
+    if (options.exposedHeaders)
+        headers["Access-Control-Expose-Headers"] = [].concat(options.exposedHeaders).join(",");
+
+    if (method.toLowerCase() !== "options")
+        return headers;
+
+    const allowedHeaders = options.allowedHeaders || getHeader("access-control-request-headers");
+    headers["Access-Control-Allow-Methods"] = [].concat(options.methods || "POST").join(",");
+    if (allowedHeaders)
+        headers["Access-Control-Allow-Headers"] = [].concat(allowedHeaders).join(",");
+    if (options.maxAge !== undefined)
+        headers["Access-Control-Max-Age"] = String(options.maxAge);
+
+    return headers;
+}
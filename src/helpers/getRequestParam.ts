@@ -0,0 +1,15 @@
+import {ParamMetadata} from "../metadata/ParamMetadata";
+
+/**
+ * Gets value of the given param from the request params:
+ * by its position if params are an array, or by its name if params are an object.
+ */
+export function getRequestParam(params: any, param: ParamMetadata): any {
+    if (params instanceof Array)
+        return param.position !== undefined ? params[param.position] : undefined;
+
+    if (params instanceof Object && param.name !== undefined)
+        return params[param.name];
+
+    return undefined;
+}
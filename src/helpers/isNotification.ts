@@ -0,0 +1,7 @@
+/**
+ * Checks if given JSON-RPC request object is a notification, e.g. a request without an "id" member.
+ * Server must not reply to notifications.
+ */
+export function isNotification(payload: any): boolean {
+    return payload instanceof Object && !(payload instanceof Array) && !("id" in payload);
+}
@@ -0,0 +1,6 @@
+/**
+ * Checks if given value is a valid JSON-RPC request id, e.g. a string, a number or null.
+ */
+export function isRequestId(id: any): boolean {
+    return id === null || typeof id === "string" || typeof id === "number";
+}
@@ -0,0 +1,8 @@
+/**
+ * Normalizes given endpoint route, so routes can be compared: query string and trailing slashes are removed,
+ * and leading slash is added. Root route is normalized to an empty string.
+ */
+export function normalizeRoute(route: string): string {
+    const path = route.split("?")[0].replace(/\/+$/, "");
+    return path && path.charAt(0) !== "/" ? "/" + path : path;
+}
@@ -0,0 +1,29 @@
+/**
+ * Parses value of the "Cookie" request header into the object of cookie values by their names.
+ */
+export function parseCookies(header: string | undefined): { [name: string]: string } {
+    const cookies: { [name: string]: string } = {};
+    if (!header)
+        return cookies;
+
+    header.split(";").forEach(pair => {
+        const index = pair.indexOf("=");
+        if (index === -1)
+            return;
+
+        const name = pair.substr(0, index).trim();
+        let value = pair.substr(index + 1).trim();
+        if (value.charAt(0) === "\"" && value.charAt(value.length - 1) === "\"")
+            value = value.slice(1, -1);
+
+        // first cookie with the same name takes precedence
+        if (name && !cookies.hasOwnProperty(name)) {
+            try {
+                cookies[name] = decodeURIComponent(value);
+            } catch (e) {
+                cookies[name] = value;
+            }
+        }
+    });
+    return cookies;
+}
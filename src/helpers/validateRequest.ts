@@ -0,0 +1,25 @@
+import {InvalidRequestError} from "../rpc-error/InvalidRequestError";
+import {isRequestId} from "./isRequestId";
+
+/**
+ * Validates envelope of the given JSON-RPC request object.
+ * Returns an error if request object is not valid, otherwise returns undefined.
+ */
+export function validateRequest(payload: any): InvalidRequestError | undefined {
+    if (!(payload instanceof Object) || payload instanceof Array)
+        return new InvalidRequestError();
+
+    if (payload.jsonrpc !== "2.0")
+        return new InvalidRequestError(`"jsonrpc" member must be exactly "2.0"`);
+
+    if ("id" in payload && !isRequestId(payload.id))
+        return new InvalidRequestError(`"id" member must be a string, a number or null`);
+
+    if (typeof payload.method !== "string")
+        return new InvalidRequestError(`"method" member must be a string`);
+
+    if ("params" in payload && !(payload.params instanceof Object))
+        return new InvalidRequestError(`"params" member must be an object or an array`);
+
+    return undefined;
+}
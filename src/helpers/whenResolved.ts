@@ -0,0 +1,9 @@
+import {isPromiseLike} from "./isPromiseLike";
+
+/**
+ * Calls given callback with the value once it's resolved.
+ * If value isn't a promise then callback is called synchronously, so no promise is allocated.
+ */
+export function whenResolved<T, U>(value: T | Promise<T>, callback: (value: T) => U | Promise<U>): U | Promise<U> {
+    return isPromiseLike(value) ? value.then(callback) : callback(value as T);
+}
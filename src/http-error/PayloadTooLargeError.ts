@@ -0,0 +1,17 @@
+import { HttpError } from "./HttpError";
+
+/**
+ * Exception for 413 HTTP error.
+ */
+export class PayloadTooLargeError extends HttpError {
+    name = "PayloadTooLargeError";
+
+    constructor(message?: string) {
+        super(413);
+        Object.setPrototypeOf(this, PayloadTooLargeError.prototype);
+
+        if (message)
+            this.message = message;
+    }
+
+}
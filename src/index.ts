@@ -1,10 +1,14 @@
 import { BaseDriver } from "./driver/BaseDriver";
 import { ExpressDriver } from "./driver/express/ExpressDriver";
 import { KoaDriver } from "./driver/koa/KoaDriver";
+import { WebSocketDriver } from "./driver/websocket/WebSocketDriver";
+import { NodeHttpDriver } from "./driver/node/NodeHttpDriver";
+import { FetchDriver } from "./driver/fetch/FetchDriver";
+import { StreamDriver } from "./driver/stream/StreamDriver";
 import { MetadataArgsStorage } from "./metadata-builder/MetadataArgsStorage";
 import { Application } from "./Application";
 import { ApplicationOptions } from "./ApplicationOptions";
-import { ValidationOptions } from "class-validator";
+import { ValidatorOptions } from "class-validator";
 import { importClassesFromDirectories } from "./helpers/importClassesFromDirectories";
 
 // -------------------------------------------------------------------------
@@ -20,27 +24,80 @@ export * from "./rpc-error/InvalidRequestError";
 export * from "./rpc-error/MethodNotFoundError";
 export * from "./rpc-error/ParseError";
 export * from "./rpc-error/ServerError";
+export * from "./rpc-error/AuthorizationRequiredError";
+export * from "./rpc-error/AccessDeniedError";
 
 export * from "./decorator/Controller";
 export * from "./decorator/Method";
+export * from "./decorator/MethodMatch";
 export * from "./decorator/RequestId";
 export * from "./decorator/Params";
 export * from "./decorator/Params";
 export * from "./decorator/Param";
+export * from "./decorator/Connection";
+export * from "./decorator/CurrentUser";
+export * from "./decorator/Req";
+export * from "./decorator/Res";
+export * from "./decorator/Ctx";
+export * from "./decorator/Header";
+export * from "./decorator/Cookie";
+export * from "./decorator/Cookies";
+export * from "./decorator/RemoteAddress";
+export * from "./decorator/createParamDecorator";
+export * from "./decorator/Subscription";
+export * from "./decorator/Throws";
+export * from "./decorator/UseBefore";
+export * from "./decorator/UseAfter";
+export * from "./decorator/UseErrorHandler";
+export * from "./decorator/RpcErrorHandler";
+export * from "./decorator/Authorized";
+export * from "./decorator-options/ControllerOptions";
+export * from "./decorator-options/CurrentUserOptions";
+export * from "./decorator-options/CustomParamOptions";
+export * from "./decorator-options/ErrorHandlerOptions";
 export * from "./decorator-options/ParamOptions";
+export * from "./decorator-options/MethodOptions";
+
+export * from "./middleware/MiddlewareInterface";
+export * from "./error-handler/ErrorHandlerInterface";
+
+export * from "./openrpc/OpenRpcDocument";
+export * from "./openrpc/OpenRpcGenerator";
+export * from "./codegen/ClientGenerator";
+export * from "./codegen/ClientGeneratorOptions";
+
+export * from "./client/RpcClient";
+export * from "./client/RpcClientOptions";
+export * from "./client/RequestTimeoutError";
+export * from "./client/transport/ClientTransport";
+export * from "./client/transport/MessageTransport";
+export * from "./client/transport/HttpTransport";
+export * from "./client/transport/WebSocketTransport";
+export * from "./client/transport/StreamTransport";
+
+export * from "./subscription/SubscriptionPublisher";
+export * from "./subscription/TopicSubscription";
 
 export * from "./metadata-builder/MetadataArgsStorage";
 export * from "./metadata/MethodMetadata";
 export * from "./metadata/ControllerMetadata";
 export * from "./metadata/ParamMetadata";
 export * from "./metadata/ResponseHandleMetadata";
+export * from "./metadata/UseMetadata";
+export * from "./metadata/ErrorHandlerMetadata";
 
+export * from "./Application";
+export * from "./AddMethodOptions";
 export * from "./ApplicationOptions";
 export * from "./Action";
 
 export * from "./driver/BaseDriver";
 export * from "./driver/express/ExpressDriver";
 export * from "./driver/koa/KoaDriver";
+export * from "./driver/websocket/WebSocketDriver";
+export * from "./driver/node/NodeHttpDriver";
+export * from "./driver/fetch/FetchDriver";
+export * from "./driver/stream/StreamDriver";
 
 // -------------------------------------------------------------------------
 // Main Functions
@@ -57,6 +114,15 @@ export function getMetadataArgsStorage(): MetadataArgsStorage {
     return (global as any).rpcControllersMetadataArgsStorage;
 }
 
+/**
+ * Creates isolated metadata registry with the given controllers, middlewares and error handlers registered in it.
+ * Registry is passed in the "registry" option, so application only sees classes registered in it.
+ * More classes can be added later with registry.register method.
+ */
+export function createRegistry(classes: Function[] = []): MetadataArgsStorage {
+    return new MetadataArgsStorage().register(classes);
+}
+
 /**
  * Registers all loaded actions in your express application.
  */
@@ -89,6 +155,57 @@ export function createKoaServer(options?: ApplicationOptions): any {
     return createServer(driver, options);
 }
 
+/**
+ * Registers all loaded actions in your node http or https server.
+ */
+export function useHttpServer<T>(server: T, options?: ApplicationOptions): T {
+    const driver = new NodeHttpDriver(server);
+    return createServer(driver, options);
+}
+
+/**
+ * Registers all loaded actions in a new node http server.
+ */
+export function createHttpServer(options?: ApplicationOptions): any {
+    const driver = new NodeHttpDriver();
+    return createServer(driver, options);
+}
+
+/**
+ * Registers all loaded actions in a Fetch API handler,
+ * which takes a standard Request and resolves to a standard Response.
+ */
+export function createFetchHandler(options?: ApplicationOptions): (request: any) => Promise<any> {
+    const driver = new FetchDriver();
+    return createServer(driver, options);
+}
+
+/**
+ * Registers all loaded actions in a driver which reads requests from stdin and writes responses to stdout
+ * using LSP-style "Content-Length" framing.
+ */
+export function createStdioServer(options?: ApplicationOptions): StreamDriver {
+    const driver = new StreamDriver(process.stdin, process.stdout);
+    return createServer(driver, options);
+}
+
+/**
+ * Registers all loaded actions in your ws (WebSocket) server.
+ */
+export function useWebSocketServer<T>(webSocketServer: T, options?: ApplicationOptions): T {
+    const driver = new WebSocketDriver(webSocketServer);
+    return createServer(driver, options);
+}
+
+/**
+ * Registers all loaded actions in a new ws (WebSocket) server.
+ * Created server isn't bound to any port, attach it to the "upgrade" event of your http server.
+ */
+export function createWebSocketServer(options?: ApplicationOptions): any {
+    const driver = new WebSocketDriver();
+    return createServer(driver, options);
+}
+
 /**
  * Registers all loaded actions in your application using selected driver.
  */
@@ -98,9 +215,10 @@ export function createServer<T extends BaseDriver>(driver: T, options?: Applicat
 }
 
 /**
- * Registers all loaded actions in your express application.
+ * Registers all loaded actions in your application using selected driver
+ * and returns an application which can also handle JSON-RPC requests directly.
  */
-export function createExecutor<T extends BaseDriver>(driver: T, options: ApplicationOptions = {}): void {
+export function createExecutor<T extends BaseDriver>(driver: T, options: ApplicationOptions = {}): Application<T> {
 
     // import all controllers and middlewares and error handlers (new way)
     let controllerClasses: Function[];
@@ -109,6 +227,18 @@ export function createExecutor<T extends BaseDriver>(driver: T, options: Applica
         const controllerDirs = (options.controllers as any[]).filter(controller => typeof controller === "string");
         controllerClasses.push(...importClassesFromDirectories(controllerDirs));
     }
+    let middlewareClasses: Function[];
+    if (options && options.middlewares && options.middlewares.length) {
+        middlewareClasses = (options.middlewares as any[]).filter(middleware => middleware instanceof Function);
+        const middlewareDirs = (options.middlewares as any[]).filter(middleware => typeof middleware === "string");
+        middlewareClasses.push(...importClassesFromDirectories(middlewareDirs));
+    }
+    let errorHandlerClasses: Function[];
+    if (options && options.errorHandlers && options.errorHandlers.length) {
+        errorHandlerClasses = (options.errorHandlers as any[]).filter(errorHandler => errorHandler instanceof Function);
+        const errorHandlerDirs = (options.errorHandlers as any[]).filter(errorHandler => typeof errorHandler === "string");
+        errorHandlerClasses.push(...importClassesFromDirectories(errorHandlerDirs));
+    }
 
     if (options && options.development !== undefined) {
         driver.developmentMode = options.development;
@@ -116,20 +246,26 @@ export function createExecutor<T extends BaseDriver>(driver: T, options: Applica
         driver.developmentMode = process.env.NODE_ENV !== "production";
     }
 
+    if (options.defaultErrorHandler !== undefined) {
+        driver.isDefaultErrorHandlingEnabled = options.defaultErrorHandler;
+    } else {
+        driver.isDefaultErrorHandlingEnabled = true;
+    }
+
     if (options.classTransformer !== undefined) {
         driver.useClassTransformer = options.classTransformer;
     } else {
         driver.useClassTransformer = true;
     }
 
-    /*if (options.validation !== undefined) {
+    if (options.validation !== undefined) {
         driver.enableValidation = !!options.validation;
         if (options.validation instanceof Object)
-            driver.validationOptions = options.validation as ValidationOptions;
+            driver.validationOptions = options.validation as ValidatorOptions;
 
     } else {
         driver.enableValidation = true;
-    }*/
+    }
 
     driver.classToPlainTransformOptions = options.classToPlainTransformOptions;
     driver.plainToClassTransformOptions = options.plainToClassTransformOptions;
@@ -138,9 +274,14 @@ export function createExecutor<T extends BaseDriver>(driver: T, options: Applica
         driver.routePrefix = options.routePrefix;
 
     driver.cors = options.cors;
+    driver.bodyLimit = options.bodyLimit;
+    driver.authorizationHttpStatus = !!options.authorizationHttpStatus;
+    driver.currentUserChecker = options.currentUserChecker;
 
     // next create a controller executor
-    new Application(driver, options)
+    return new Application(driver, options)
         .initialize()
+        .registerMiddlewares(middlewareClasses)
+        .registerErrorHandlers(errorHandlerClasses)
         .registerControllers(controllerClasses);
 }
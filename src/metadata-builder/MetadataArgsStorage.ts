@@ -2,6 +2,10 @@ import {ControllerMetadataArgs} from "../metadata/args/ControllerMetadataArgs";
 import {MethodMetadataArgs} from "../metadata/args/MethodMetadataArgs";
 import {ParamMetadataArgs} from "../metadata/args/ParamMetadataArgs";
 import {ResponseHandlerMetadataArgs} from "../metadata/args/ResponseHandleMetadataArgs";
+import {UseMetadataArgs} from "../metadata/args/UseMetadataArgs";
+import {ErrorHandlerMetadataArgs} from "../metadata/args/ErrorHandlerMetadataArgs";
+import {UseErrorHandlerMetadataArgs} from "../metadata/args/UseErrorHandlerMetadataArgs";
+import {getMetadataArgsStorage} from "../index";
 
 /**
  * Storage all metadatas read from decorators.
@@ -32,6 +36,21 @@ export class MetadataArgsStorage {
      */
     responseHandlers: ResponseHandlerMetadataArgs[] = [];
 
+    /**
+     * Registered "use middleware" metadata args.
+     */
+    uses: UseMetadataArgs[] = [];
+
+    /**
+     * Registered global error handler metadata args.
+     */
+    errorHandlers: ErrorHandlerMetadataArgs[] = [];
+
+    /**
+     * Registered "use error handler" metadata args.
+     */
+    errorHandlerUses: UseErrorHandlerMetadataArgs[] = [];
+
     // -------------------------------------------------------------------------
     // Public Methods
     // -------------------------------------------------------------------------
@@ -79,6 +98,73 @@ export class MetadataArgsStorage {
         });
     }
 
+    /**
+     * Filters registered "use middleware" metadatas of the whole controller by a given class.
+     */
+    filterUsesWithTarget(target: Function): UseMetadataArgs[] {
+        return this.uses.filter(use => {
+            return use.target === target && !use.method;
+        });
+    }
+
+    /**
+     * Filters registered "use middleware" metadatas by a given class and method name.
+     */
+    filterUsesWithTargetAndMethod(target: Function, methodName: string): UseMetadataArgs[] {
+        return this.uses.filter(use => {
+            return use.target === target && use.method === methodName;
+        });
+    }
+
+    /**
+     * Filters registered error handlers by a given classes.
+     */
+    filterErrorHandlerMetadatasForClasses(classes: Function[]): ErrorHandlerMetadataArgs[] {
+        return this.errorHandlers.filter(errorHandler => {
+            return classes.filter(cls => errorHandler.target === cls).length > 0;
+        });
+    }
+
+    /**
+     * Filters registered "use error handler" metadatas of the whole controller by a given class.
+     */
+    filterErrorHandlerUsesWithTarget(target: Function): UseErrorHandlerMetadataArgs[] {
+        return this.errorHandlerUses.filter(use => {
+            return use.target === target && !use.method;
+        });
+    }
+
+    /**
+     * Filters registered "use error handler" metadatas by a given class and method name.
+     */
+    filterErrorHandlerUsesWithTargetAndMethod(target: Function, methodName: string): UseErrorHandlerMetadataArgs[] {
+        return this.errorHandlerUses.filter(use => {
+            return use.target === target && use.method === methodName;
+        });
+    }
+
+    /**
+     * Registers given classes in this storage by copying all their metadata args from the given storage,
+     * which is the global one by default. Storage created this way is an isolated registry of the application,
+     * it contains only controllers, methods and error handlers of the registered classes.
+     * Class can be registered in multiple registries, e.g. a health check controller shared by several applications.
+     */
+    register(classes: Function[], storage: MetadataArgsStorage = getMetadataArgsStorage()): this {
+        const isRegistered = (target: Function) => classes.indexOf(target) !== -1;
+        const copy = <T>(source: T[], target: T[], filter: (args: T) => boolean) => {
+            source.filter(args => filter(args) && target.indexOf(args) === -1).forEach(args => target.push(args));
+        };
+
+        copy(storage.controllers, this.controllers, args => isRegistered(args.target));
+        copy(storage.methods, this.methods, args => isRegistered(args.target));
+        copy(storage.params, this.params, args => isRegistered(args.object.constructor));
+        copy(storage.responseHandlers, this.responseHandlers, args => isRegistered(args.target));
+        copy(storage.uses, this.uses, args => isRegistered(args.target));
+        copy(storage.errorHandlers, this.errorHandlers, args => isRegistered(args.target));
+        copy(storage.errorHandlerUses, this.errorHandlerUses, args => isRegistered(args.target));
+        return this;
+    }
+
     /**
      * Removes all saved metadata.
      */
@@ -87,6 +173,9 @@ export class MetadataArgsStorage {
         this.methods = [];
         this.params = [];
         this.responseHandlers = [];
+        this.uses = [];
+        this.errorHandlers = [];
+        this.errorHandlerUses = [];
     }
 
 }
\ No newline at end of file
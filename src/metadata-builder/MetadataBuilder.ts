@@ -2,16 +2,28 @@ import { MethodMetadata } from "../metadata/MethodMetadata";
 import { ControllerMetadata } from "../metadata/ControllerMetadata";
 import { ParamMetadata } from "../metadata/ParamMetadata";
 import { ParamMetadataArgs } from "../metadata/args/ParamMetadataArgs";
+import { MethodMetadataArgs } from "../metadata/args/MethodMetadataArgs";
 import { ResponseHandlerMetadata } from "../metadata/ResponseHandleMetadata";
+import { UseMetadata } from "../metadata/UseMetadata";
+import { ErrorHandlerMetadata } from "../metadata/ErrorHandlerMetadata";
 import { ApplicationOptions } from "../ApplicationOptions";
 import { getMetadataArgsStorage } from "../index";
+import { MetadataArgsStorage } from "./MetadataArgsStorage";
+import { getArgumentNames } from "../helpers/getArgumentNames";
+import { AddMethodOptions } from "../AddMethodOptions";
 
 /**
  * Builds metadata from the given metadata arguments.
  */
 export class MetadataBuilder {
 
+    /**
+     * Storage metadata is built from. Application registry is used if it's given, otherwise the global storage.
+     */
+    private storage: MetadataArgsStorage;
+
     constructor(private options: ApplicationOptions) {
+        this.storage = options.registry || getMetadataArgsStorage();
     }
 
     // -------------------------------------------------------------------------
@@ -25,6 +37,57 @@ export class MetadataBuilder {
         return this.createControllers(classes);
     }
 
+    /**
+     * Builds global error handler metadata from a registered error handler metadata args.
+     * Error handlers are sorted by their priority, so handlers with higher priority are first.
+     */
+    buildErrorHandlerMetadata(classes?: Function[]): ErrorHandlerMetadata[] {
+        const errorHandlers = !classes ? this.storage.errorHandlers : this.storage.filterErrorHandlerMetadatasForClasses(classes);
+        return errorHandlers
+            .map(errorHandlerArgs => new ErrorHandlerMetadata(errorHandlerArgs))
+            .sort((errorHandler1, errorHandler2) => errorHandler2.priority - errorHandler1.priority);
+    }
+
+    /**
+     * Builds metadata of the method registered at runtime, which executes the given handler function.
+     * Method belongs to its own controller without name, so it isn't affected by controller middlewares and handlers.
+     */
+    buildHandlerMethodMetadata(name: string | RegExp, handler: (...args: any[]) => any, options: AddMethodOptions = {}): MethodMetadata {
+        const target = function () {};
+        target.prototype.handler = handler;
+
+        const controller = new ControllerMetadata({ target: target, name: undefined, route: options.route });
+        controller.build([]);
+        controller.uses = [];
+        controller.errorHandlers = [];
+
+        const methodArgs: MethodMetadataArgs = {
+            target: target,
+            method: "handler",
+            name: name,
+            params: options.params || false,
+            methodOverride: (method, action, params) => handler(...params, action)
+        };
+        const method = new MethodMetadata(controller, methodArgs, this.options);
+        method.params = this.createParams(method, methodArgs);
+        if (!options.params) {
+            method.params.push(new ParamMetadata(method, {
+                type: "params",
+                object: target.prototype,
+                method: "handler",
+                index: 0,
+                parse: false,
+                required: false
+            }));
+        }
+
+        method.uses = [];
+        method.errorHandlers = [];
+        method.build([]);
+        controller.methods = [method];
+        return method;
+    }
+
     // -------------------------------------------------------------------------
     // Protected Methods
     // -------------------------------------------------------------------------
@@ -33,10 +96,14 @@ export class MetadataBuilder {
      * Creates controller metadatas.
      */
     protected createControllers(classes?: Function[]): ControllerMetadata[] {
-        const controllers = !classes ? getMetadataArgsStorage().controllers : getMetadataArgsStorage().filterControllerMetadatasForClasses(classes);
+        const controllers = !classes ? this.storage.controllers : this.storage.filterControllerMetadatasForClasses(classes);
         return controllers.map(controllerArgs => {
             const controller = new ControllerMetadata(controllerArgs);
             controller.build(this.createControllerResponseHandlers(controller));
+            controller.uses = this.createControllerUses(controller);
+            controller.errorHandlers = this.storage
+                .filterErrorHandlerUsesWithTarget(controller.target)
+                .map(use => use.errorHandler);
             controller.methods = this.createMethods(controller);
             return controller;
         });
@@ -46,11 +113,15 @@ export class MetadataBuilder {
      * Creates method metadatas.
      */
     protected createMethods(controller: ControllerMetadata): MethodMetadata[] {
-        return getMetadataArgsStorage()
+        return this.storage
             .filterMethodsWithTarget(controller.target)
             .map(methodArgs => {
                 const method = new MethodMetadata(controller, methodArgs, this.options);
-                method.params = this.createParams(method);
+                method.params = this.createParams(method, methodArgs);
+                method.uses = this.createMethodUses(method);
+                method.errorHandlers = this.storage
+                    .filterErrorHandlerUsesWithTargetAndMethod(method.target, method.method)
+                    .map(use => use.errorHandler);
                 method.build(this.createMethodResponseHandlers(method));
                 return method;
             });
@@ -59,10 +130,51 @@ export class MetadataBuilder {
     /**
      * Creates param metadatas.
      */
-    protected createParams(method: MethodMetadata): ParamMetadata[] {
-        return getMetadataArgsStorage()
+    protected createParams(method: MethodMetadata, methodArgs: MethodMetadataArgs): ParamMetadata[] {
+        const params = this.storage
             .filterParamsWithTargetAndMethod(method.target, method.method)
             .map(paramArgs => new ParamMetadata(method, this.decorateDefaultParamOptions(paramArgs)));
+
+        // arguments without param decorators take params by their positions or names
+        const decoratedIndexes = params.map(param => param.index);
+        this.getArguments(methodArgs, decoratedIndexes).forEach((argument, position) => {
+            const optional = argument.name.substr(-1) === "?";
+            params.push(new ParamMetadata(method, {
+                type: "param",
+                object: method.target.prototype,
+                method: method.method,
+                index: argument.index,
+                name: optional ? argument.name.substr(0, argument.name.length - 1) : argument.name,
+                position: position,
+                parse: false,
+                required: !optional
+            }));
+        });
+        return params;
+    }
+
+    /**
+     * Gets names and indexes of the method arguments without param decorators, which request params are mapped onto.
+     * Declared names are given to these arguments in order, otherwise names are reflected from the method signature.
+     * Reflected arguments are optional, since optional marks and default values don't survive compilation.
+     */
+    protected getArguments(methodArgs: MethodMetadataArgs, decoratedIndexes: number[]): Array<{ name: string, index: number }> {
+        const names = methodArgs.params !== undefined ? methodArgs.params : this.options.autoParams;
+        if (names instanceof Array) {
+            const indexes: number[] = [];
+            for (let index = 0; indexes.length < names.length; index++) {
+                if (decoratedIndexes.indexOf(index) === -1)
+                    indexes.push(index);
+            }
+            return names.map((name, position) => ({ name: name, index: indexes[position] }));
+        }
+
+        if (!names)
+            return [];
+
+        return getArgumentNames(methodArgs.target.prototype[methodArgs.method])
+            .map((name, index) => ({ name: name + "?", index: index }))
+            .filter(argument => decoratedIndexes.indexOf(argument.index) === -1);
     }
 
     /**
@@ -79,11 +191,29 @@ export class MetadataBuilder {
         return paramArgs;
     }
 
+    /**
+     * Creates use metadatas for controller.
+     */
+    protected createControllerUses(controller: ControllerMetadata): UseMetadata[] {
+        return this.storage
+            .filterUsesWithTarget(controller.target)
+            .map(useArgs => new UseMetadata(useArgs));
+    }
+
+    /**
+     * Creates use metadatas for method.
+     */
+    protected createMethodUses(method: MethodMetadata): UseMetadata[] {
+        return this.storage
+            .filterUsesWithTargetAndMethod(method.target, method.method)
+            .map(useArgs => new UseMetadata(useArgs));
+    }
+
     /**
      * Creates response handler metadatas for method.
      */
     protected createMethodResponseHandlers(method: MethodMetadata): ResponseHandlerMetadata[] {
-        return getMetadataArgsStorage()
+        return this.storage
             .filterResponseHandlersWithTargetAndMethod(method.target, method.method)
             .map(handlerArgs => new ResponseHandlerMetadata(handlerArgs));
     }
@@ -92,7 +222,7 @@ export class MetadataBuilder {
      * Creates response handler metadatas for controller.
      */
     protected createControllerResponseHandlers(controller: ControllerMetadata): ResponseHandlerMetadata[] {
-        return getMetadataArgsStorage()
+        return this.storage
             .filterResponseHandlersWithTarget(controller.target)
             .map(handlerArgs => new ResponseHandlerMetadata(handlerArgs));
     }
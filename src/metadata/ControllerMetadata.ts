@@ -2,6 +2,8 @@ import {MethodMetadata} from "./MethodMetadata";
 import {ControllerMetadataArgs} from "./args/ControllerMetadataArgs";
 import {getFromContainer} from "../container";
 import {ResponseHandlerMetadata} from "./ResponseHandleMetadata";
+import {UseMetadata} from "./UseMetadata";
+import {normalizeRoute} from "../helpers/normalizeRoute";
 
 /**
  * Controller metadata.
@@ -27,6 +29,31 @@ export class ControllerMetadata {
      */
     name: string;
 
+    /**
+     * Normalized route of the endpoint which serves controller methods, empty for the default endpoint.
+     */
+    route: string;
+
+    /**
+     * Middleware "use"-s applied to all controller methods.
+     */
+    uses: UseMetadata[];
+
+    /**
+     * Error handlers applied to all controller methods.
+     */
+    errorHandlers: Function[];
+
+    /**
+     * Indicates if this controller's methods are executed only for authorized requests.
+     */
+    isAuthorizedUsed: boolean;
+
+    /**
+     * Roles required to execute this controller's methods.
+     */
+    authorizedRoles: any[];
+
     // -------------------------------------------------------------------------
     // Constructor
     // -------------------------------------------------------------------------
@@ -34,6 +61,7 @@ export class ControllerMetadata {
     constructor(args: ControllerMetadataArgs) {
         this.target = args.target;
         this.name = args.name;
+        this.route = normalizeRoute(args.route || "");
     }
 
     // -------------------------------------------------------------------------
@@ -57,6 +85,8 @@ export class ControllerMetadata {
      */
     build(responseHandlers: ResponseHandlerMetadata[]) {
         const authorizedHandler = responseHandlers.find(handler => handler.type === "authorized" && !handler.method);
+        this.isAuthorizedUsed = !!authorizedHandler;
+        this.authorizedRoles = [].concat((authorizedHandler && authorizedHandler.value) || []);
     }
 
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import {ErrorHandlerMetadataArgs} from "./args/ErrorHandlerMetadataArgs";
+import {ErrorHandlerInterface} from "../error-handler/ErrorHandlerInterface";
+import {getFromContainer} from "../container";
+
+/**
+ * Global error handler metadata.
+ */
+export class ErrorHandlerMetadata {
+
+    // -------------------------------------------------------------------------
+    // Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Object class of the error handler class.
+     */
+    target: Function;
+
+    /**
+     * Execution priority of the error handler.
+     */
+    priority: number;
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(args: ErrorHandlerMetadataArgs) {
+        this.target = args.target;
+        this.priority = args.priority;
+    }
+
+    // -------------------------------------------------------------------------
+    // Accessors
+    // -------------------------------------------------------------------------
+
+    /**
+     * Gets instance of the error handler.
+     */
+    get instance(): ErrorHandlerInterface {
+        return getFromContainer<ErrorHandlerInterface>(this.target);
+    }
+
+}
@@ -5,6 +5,8 @@ import { ControllerMetadata } from "./ControllerMetadata";
 import { ParamMetadata } from "./ParamMetadata";
 import { ResponseHandlerMetadata } from "./ResponseHandleMetadata";
 import { ApplicationOptions } from "../ApplicationOptions";
+import { RpcError } from "../rpc-error/RpcError";
+import { UseMetadata } from "./UseMetadata";
 
 /**
  * Method metadata.
@@ -25,6 +27,26 @@ export class MethodMetadata {
      */
     params: ParamMetadata[];
 
+    /**
+     * Middleware "use"-s applied to this method.
+     */
+    uses: UseMetadata[];
+
+    /**
+     * Error handlers applied to this method.
+     */
+    errorHandlers: Function[];
+
+    /**
+     * Indicates if method is executed only for authorized requests.
+     */
+    isAuthorizedUsed: boolean;
+
+    /**
+     * Roles required to execute the method.
+     */
+    authorizedRoles: any[];
+
     /**
      * Class on which's method this method is attached.
      */
@@ -45,6 +67,17 @@ export class MethodMetadata {
      */
     fullName: string | RegExp;
 
+    /**
+     * Indicates if method is a subscription topic.
+     * Subscription methods can't be called directly, they are executed when client subscribes to them.
+     */
+    subscription: boolean;
+
+    /**
+     * Errors declared to be responded by the method.
+     */
+    errors: RpcError[];
+
     /**
      * Class-transformer options for the method response content.
      */
@@ -65,6 +98,11 @@ export class MethodMetadata {
      */
     methodOverride?: (methodMetadata: MethodMetadata, action: Action, params: any[]) => Promise<any> | any;
 
+    /**
+     * Resolves values of the method params, it's compiled by the application on method registration.
+     */
+    paramsResolver?: (action: Action) => any[] | Promise<any[]>;
+
     // -------------------------------------------------------------------------
     // Constructor
     // -------------------------------------------------------------------------
@@ -74,6 +112,7 @@ export class MethodMetadata {
         this.name = args.name;
         this.target = args.target;
         this.method = args.method;
+        this.subscription = !!args.subscription;
         this.appendParams = args.appendParams;
         this.methodOverride = args.methodOverride;
     }
@@ -88,11 +127,19 @@ export class MethodMetadata {
      */
     build(responseHandlers: ResponseHandlerMetadata[]) {
         const classTransformerResponseHandler = responseHandlers.find(handler => handler.type === "response-class-transform-options");
+        const authorizedHandler = responseHandlers.find(handler => handler.type === "authorized");
 
         if (classTransformerResponseHandler)
             this.responseClassTransformOptions = classTransformerResponseHandler.value;
 
 
+        this.isAuthorizedUsed = this.controllerMetadata.isAuthorizedUsed || !!authorizedHandler;
+        this.authorizedRoles = [].concat((authorizedHandler && authorizedHandler.value) || this.controllerMetadata.authorizedRoles);
+
+        this.errors = responseHandlers
+            .filter(handler => handler.type === "throws")
+            .map(handler => handler.value);
+
         this.fullName = this.buildFullName();
         this.headers = this.buildHeaders(responseHandlers);
     }
@@ -105,12 +152,8 @@ export class MethodMetadata {
      * Builds full method name.
      */
     private buildFullName(): string | RegExp {
-        if (this.name instanceof RegExp) {
-            if (this.controllerMetadata.name) {
-                return MethodMetadata.appendBaseName(this.controllerMetadata.name, this.name);
-            }
-            return this.name;
-        }
+        if (this.name instanceof RegExp || (typeof this.name === "string" && this.name.indexOf("*") !== -1))
+            return MethodMetadata.appendBaseName(this.controllerMetadata.name || "", this.name, this.options.methodSeparator || ".");
 
         let paths: Array<string> = [];
         if (this.controllerMetadata.name) paths.push(this.controllerMetadata.name);
@@ -142,9 +185,12 @@ export class MethodMetadata {
 
     /**
      * Calls method method.
-     * Method method is an method defined in a user controller.
+     * Method method is an method defined in a user controller, unless method override is given.
      */
-    callMethod(params: any[]) {
+    callMethod(params: any[], action?: Action) {
+        if (this.methodOverride)
+            return this.methodOverride(this, action, params);
+
         const controllerInstance = this.controllerMetadata.instance;
         return controllerInstance[this.method].apply(controllerInstance, params);
     }
@@ -154,18 +200,26 @@ export class MethodMetadata {
     // -------------------------------------------------------------------------
 
     /**
-     * Appends base name to a given regexp name.
+     * Appends base name to a given regexp or wildcard name and creates regexp which matches the whole method name.
+     * Every "*" of the wildcard name matches a single part of the method name (up to the separator) and captures it.
      */
-    static appendBaseName(baseName: string, name: RegExp | string) {
-        const prefix = `${baseName.length > 0 && baseName.indexOf("/") < 0 ? "/" : ""}${baseName}`;
-        if (typeof name === "string")
-            return `${prefix}${name}`;
-
-        if (!baseName || baseName === "") return name;
+    static appendBaseName(baseName: string, name: RegExp | string, separator: string = "."): RegExp {
+        const prefix = baseName ? MethodMetadata.escape(baseName + separator) : "";
+        if (typeof name === "string") {
+            const part = `((?:(?!${MethodMetadata.escape(separator)}).)+)`;
+            return new RegExp(`^${prefix}${name.split("*").map(MethodMetadata.escape).join(part)}$`);
+        }
 
-        const fullPath = `^${prefix}${name.toString().substr(1)}?$`;
+        // stateful flags are dropped, so regexp can be tested against every request
+        const source = name.source.replace(/^\^/, "").replace(/([^\\])\$$/, "$1");
+        return new RegExp(`^${prefix}(?:${source})$`, name.flags.replace(/[gy]/g, ""));
+    }
 
-        return new RegExp(fullPath, name.flags);
+    /**
+     * Escapes given string to be matched literally in regexp.
+     */
+    static escape(value: string): string {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
     }
 
 }
\ No newline at end of file
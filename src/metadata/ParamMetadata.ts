@@ -44,6 +44,11 @@ export class ParamMetadata {
      */
     name: string;
 
+    /**
+     * Position of the parameter in the params array.
+     */
+    position?: number;
+
     /**
      * Parameter target type.
      */
@@ -79,6 +84,11 @@ export class ParamMetadata {
      */
     transform: (action: Action, value?: any) => Promise<any>|any;
 
+    /**
+     * Gets value of the custom parameter.
+     */
+    value?: (action: Action, method: MethodMetadata) => Promise<any>|any;
+
     /**
      * Additional parameter options.
      * For example it can be uploader middleware options or body-parser middleware options.
@@ -109,9 +119,11 @@ export class ParamMetadata {
         this.index = args.index;
         this.type = args.type;
         this.name = args.name;
+        this.position = args.position;
         this.parse = args.parse;
         this.required = args.required;
         this.transform = args.transform;
+        this.value = args.value;
         this.classTransform = args.classTransform;
         this.validate = args.validate;
 
@@ -0,0 +1,43 @@
+import {UseMetadataArgs} from "./args/UseMetadataArgs";
+
+/**
+ * "Use middleware" metadata.
+ */
+export class UseMetadata {
+
+    // -------------------------------------------------------------------------
+    // Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Object class of the controller on which middleware is used.
+     */
+    target: Function;
+
+    /**
+     * Method to which middleware is applied.
+     */
+    method?: string;
+
+    /**
+     * Middleware class to be used.
+     */
+    middleware: Function;
+
+    /**
+     * Indicates if "after" hook of the middleware should be used, otherwise "before" hook is used.
+     */
+    afterAction: boolean;
+
+    // -------------------------------------------------------------------------
+    // Constructor
+    // -------------------------------------------------------------------------
+
+    constructor(args: UseMetadataArgs) {
+        this.target = args.target;
+        this.method = args.method;
+        this.middleware = args.middleware;
+        this.afterAction = args.afterAction;
+    }
+
+}
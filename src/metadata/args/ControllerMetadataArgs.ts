@@ -12,5 +12,10 @@ export interface ControllerMetadataArgs {
      * Base name for all actions registered in this controller.
      */
     name: string;
-    
+
+    /**
+     * Route of the endpoint which serves controller methods.
+     */
+    route?: string;
+
 }
\ No newline at end of file
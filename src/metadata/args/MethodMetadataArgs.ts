@@ -21,6 +21,16 @@ export interface MethodMetadataArgs {
      */
     method: string;
 
+    /**
+     * Indicates if method is a subscription topic rather than a regular method.
+     */
+    subscription?: boolean;
+
+    /**
+     * Names of the arguments request params are mapped onto, or true if they should be reflected from the method.
+     */
+    params?: boolean | string[];
+
     /**
      * Params to be appended to the method call.
      */
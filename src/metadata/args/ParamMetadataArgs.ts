@@ -1,6 +1,8 @@
 import {ValidatorOptions} from "class-validator";
 import {ClassTransformOptions} from "class-transformer";
 import {ParamType} from "../types/ParamType";
+import {Action} from "../../Action";
+import {MethodMetadata} from "../MethodMetadata";
 
 /**
  * Controller metadata used to storage information about registered parameters.
@@ -32,6 +34,11 @@ export interface ParamMetadataArgs {
      */
     name?: string;
 
+    /**
+     * Position of the parameter in the params array.
+     */
+    position?: number;
+
     /**
      * Specifies if parameter should be parsed as json or not.
      */
@@ -46,6 +53,11 @@ export interface ParamMetadataArgs {
      * Transforms the value.
      */
     transform?: (value?: any, request?: any, response?: any) => Promise<any>|any;
+
+    /**
+     * Gets value of the custom parameter.
+     */
+    value?: (action: Action, method: MethodMetadata) => Promise<any>|any;
     
     /**
      * Extra parameter options.
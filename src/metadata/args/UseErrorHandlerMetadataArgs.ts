@@ -0,0 +1,22 @@
+/**
+ * Metadata used to store error handlers used by the controller or its method.
+ */
+export interface UseErrorHandlerMetadataArgs {
+
+    /**
+     * Object class of the controller on which error handler is used.
+     */
+    target: Function;
+
+    /**
+     * Method to which error handler is applied.
+     * If method is not given then error handler is applied to all controller methods.
+     */
+    method?: string;
+
+    /**
+     * Error handler class to be used.
+     */
+    errorHandler: Function;
+
+}
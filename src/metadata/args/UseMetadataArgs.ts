@@ -0,0 +1,27 @@
+/**
+ * Metadata used to store registered middlewares of the controller or its method.
+ */
+export interface UseMetadataArgs {
+
+    /**
+     * Object class of the controller on which middleware is used.
+     */
+    target: Function;
+
+    /**
+     * Method to which middleware is applied.
+     * If method is not given then middleware is applied to all controller methods.
+     */
+    method?: string;
+
+    /**
+     * Middleware class to be used.
+     */
+    middleware: Function;
+
+    /**
+     * Indicates if "after" hook of the middleware should be used, otherwise "before" hook is used.
+     */
+    afterAction: boolean;
+
+}
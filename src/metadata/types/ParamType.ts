@@ -4,4 +4,15 @@
 export type ParamType = "params"
     | "param"
     | "request-id"
-    | "method";
\ No newline at end of file
+    | "method"
+    | "connection"
+    | "current-user"
+    | "request"
+    | "response"
+    | "context"
+    | "header"
+    | "cookie"
+    | "cookies"
+    | "remote-address"
+    | "custom"
+    | "method-match";
\ No newline at end of file
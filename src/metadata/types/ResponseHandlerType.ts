@@ -10,4 +10,5 @@ export type ResponseHandlerType = "success-code"
     |"on-null"
     |"on-undefined"
     |"response-class-transform-options"
-    |"authorized";
\ No newline at end of file
+    |"authorized"
+    |"throws";
\ No newline at end of file
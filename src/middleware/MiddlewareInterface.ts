@@ -0,0 +1,22 @@
+import {Action} from "../Action";
+import {MethodMetadata} from "../metadata/MethodMetadata";
+
+/**
+ * Classes that implement this interface can be used as controller method middlewares.
+ * Hooks can return promises. Throw an error (e.g. RpcError) from any hook to respond with it.
+ */
+export interface MiddlewareInterface {
+
+    /**
+     * Called before the method execution with its computed params.
+     * If a value other than undefined is returned, method isn't executed and the value is responded as its result.
+     */
+    before?(action: Action, method: MethodMetadata, params: any[]): any;
+
+    /**
+     * Called after the method execution with its result.
+     * If a value other than undefined is returned, it's responded instead of the method result.
+     */
+    after?(action: Action, method: MethodMetadata, result: any): any;
+
+}
@@ -0,0 +1,59 @@
+/**
+ * JSON Schema used to describe params and results.
+ */
+export interface JsonSchema {
+    [keyword: string]: any;
+}
+
+/**
+ * Metadata about the API, for example its title and version.
+ */
+export interface OpenRpcInfo {
+    title: string;
+    version: string;
+    description?: string;
+    [extension: string]: any;
+}
+
+/**
+ * Describes a single method param or a method result.
+ */
+export interface OpenRpcContentDescriptor {
+    name: string;
+    required?: boolean;
+    description?: string;
+    schema: JsonSchema;
+}
+
+/**
+ * Describes an error that can be responded by the method.
+ */
+export interface OpenRpcError {
+    code: number;
+    message: string;
+    data?: any;
+}
+
+/**
+ * Describes a single method of the API.
+ */
+export interface OpenRpcMethod {
+    name: string;
+    params: OpenRpcContentDescriptor[];
+    result: OpenRpcContentDescriptor;
+    paramStructure?: "by-name" | "by-position" | "either";
+    errors?: OpenRpcError[];
+}
+
+/**
+ * OpenRPC document which describes the whole API.
+ * See https://spec.open-rpc.org for details.
+ */
+export interface OpenRpcDocument {
+    openrpc: string;
+    info: OpenRpcInfo;
+    methods: OpenRpcMethod[];
+    components?: {
+        schemas?: { [name: string]: JsonSchema };
+    };
+}
@@ -0,0 +1,289 @@
+import {getFromContainer, MetadataStorage, ValidationTypes} from "class-validator";
+import {ValidationMetadata} from "class-validator/metadata/ValidationMetadata";
+import {defaultMetadataStorage} from "class-transformer/storage";
+import {MethodMetadata} from "../metadata/MethodMetadata";
+import {ParamMetadata} from "../metadata/ParamMetadata";
+import {JsonSchema, OpenRpcContentDescriptor, OpenRpcDocument, OpenRpcInfo, OpenRpcMethod} from "./OpenRpcDocument";
+
+/**
+ * Generates OpenRPC document from the controller methods metadata.
+ * Param and result schemas are built from the reflected design types and class-transformer / class-validator
+ * metadata of the classes used as params and results.
+ */
+export class OpenRpcGenerator {
+
+    // -------------------------------------------------------------------------
+    // Properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * Version of the OpenRPC specification generated document conforms to.
+     */
+    static readonly version = "1.2.6";
+
+    /**
+     * Schemas of the classes referenced in the document being generated.
+     */
+    protected schemas: { [name: string]: JsonSchema } = {};
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Generates OpenRPC document of the given methods.
+     * Subscription topics and methods with RegExp names can't be called directly, so they are not described.
+     */
+    generate(methods: MethodMetadata[], info: OpenRpcInfo): OpenRpcDocument {
+        this.schemas = {};
+
+        const document: OpenRpcDocument = {
+            openrpc: OpenRpcGenerator.version,
+            info: info,
+            methods: methods
+                .filter(method => !method.subscription && typeof method.fullName === "string")
+                .map(method => this.createMethod(method))
+        };
+
+        if (Object.keys(this.schemas).length > 0)
+            document.components = { schemas: this.schemas };
+
+        return document;
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Creates OpenRPC method object of the given method.
+     */
+    protected createMethod(method: MethodMetadata): OpenRpcMethod {
+        const params: OpenRpcContentDescriptor[] = [];
+        let paramStructure: "by-name" | "by-position" | "either" = "by-name";
+
+        // params taken by their positions are described in order of their positions
+        const rpcParams = method.params.filter(param => param.type === "param");
+        const isPositional = rpcParams.length > 0 && rpcParams.every(param => param.position !== undefined);
+        if (isPositional)
+            paramStructure = rpcParams.every(param => param.name !== undefined) ? "either" : "by-position";
+
+        const order = (param: ParamMetadata) => isPositional && param.type === "param" ? param.position : param.index;
+        method.params
+            .slice()
+            .sort((param1, param2) => order(param1) - order(param2))
+            .forEach(param => {
+                if (param.type === "param") {
+                    const name = param.name !== undefined ? param.name : `param${param.position}`;
+                    params.push({ name: name, required: !!param.required, schema: this.createTypeSchema(param.targetType) });
+
+                } else if (param.type === "params") {
+                    if (param.targetType === Array) {
+                        paramStructure = "by-position";
+                    } else if (this.isClass(param.targetType)) {
+                        params.push(...this.createClassParams(param));
+                    } else {
+                        paramStructure = "either";
+                    }
+                }
+            });
+
+        const returnType = (Reflect as any).getMetadata("design:returntype", method.target.prototype, method.method);
+        const openRpcMethod: OpenRpcMethod = {
+            name: method.fullName as string,
+            params: params,
+            result: { name: "result", schema: this.createTypeSchema(returnType) },
+            paramStructure: paramStructure
+        };
+
+        if (method.errors.length > 0)
+            openRpcMethod.errors = method.errors.map(error => ({ code: error.rpcCode, message: error.message }));
+
+        return openRpcMethod;
+    }
+
+    /**
+     * Creates by-name params from the properties of the class injected with @Params() decorator.
+     */
+    protected createClassParams(param: ParamMetadata): OpenRpcContentDescriptor[] {
+        const schema = this.createClassSchema(param.targetType);
+        return Object.keys(schema.properties).map(name => ({
+            name: name,
+            required: !!schema.required && schema.required.indexOf(name) !== -1,
+            schema: schema.properties[name]
+        }));
+    }
+
+    /**
+     * Creates schema of the given design type.
+     * Classes are added to the document components and referenced.
+     */
+    protected createTypeSchema(type: any, itemType?: any): JsonSchema {
+        if (type === String) return { type: "string" };
+        if (type === Number) return { type: "number" };
+        if (type === Boolean) return { type: "boolean" };
+        if (type === Date) return { type: "string", format: "date-time" };
+        if (type === Array) return itemType ? { type: "array", items: this.createTypeSchema(itemType) } : { type: "array" };
+        if (!this.isClass(type)) return {};
+
+        if (!this.schemas[type.name]) {
+            this.schemas[type.name] = {}; // registered before build to stop on recursive classes
+            this.schemas[type.name] = this.createClassSchema(type);
+        }
+        return { $ref: `#/components/schemas/${type.name}` };
+    }
+
+    /**
+     * Creates object schema of the given class.
+     * Properties are taken from class-validator and class-transformer metadata of the class.
+     */
+    protected createClassSchema(target: Function): JsonSchema {
+        const validations = getFromContainer(MetadataStorage).getTargetValidationMetadatas(target, undefined);
+        const exposedNames = defaultMetadataStorage.getExposedMetadatas(target).map(metadata => metadata.propertyName);
+        const names = validations
+            .map(validation => validation.propertyName)
+            .concat(exposedNames)
+            .filter((name, index, names) => name && names.indexOf(name) === index);
+
+        const schema: JsonSchema = { type: "object", properties: {}, required: [] };
+        names.forEach(name => {
+            const propertyValidations = validations.filter(validation => validation.propertyName === name);
+            schema.properties[name] = this.createPropertySchema(target, name, propertyValidations);
+
+            const isOptional = propertyValidations.some(validation => validation.type === ValidationTypes.CONDITIONAL_VALIDATION);
+            if (propertyValidations.length > 0 && !isOptional)
+                schema.required.push(name);
+        });
+
+        if (schema.required.length === 0)
+            delete schema.required;
+
+        return schema;
+    }
+
+    /**
+     * Creates schema of the class property.
+     */
+    protected createPropertySchema(target: Function, name: string, validations: ValidationMetadata[]): JsonSchema {
+        const designType = (Reflect as any).getMetadata("design:type", target.prototype, name);
+        const typeMetadata = defaultMetadataStorage.findTypeMetadata(target, name);
+        const type = typeMetadata ? typeMetadata.typeFunction() : undefined;
+
+        const schema = designType === Array || !type
+            ? this.createTypeSchema(designType, type)
+            : this.createTypeSchema(type);
+
+        validations.forEach(validation => {
+            if (validation.each && schema.items) {
+                this.applyValidation(schema.items, validation);
+            } else {
+                this.applyValidation(schema, validation);
+            }
+        });
+        return schema;
+    }
+
+    /**
+     * Applies constraints of the class-validator validation to the given schema.
+     * Validations which can't be described by JSON schema are skipped.
+     */
+    protected applyValidation(schema: JsonSchema, validation: ValidationMetadata): void {
+        const constraints = validation.constraints || [];
+        switch (validation.type) {
+            case ValidationTypes.IS_STRING:
+                schema.type = "string";
+                break;
+            case ValidationTypes.IS_NUMBER:
+                schema.type = "number";
+                break;
+            case ValidationTypes.IS_INT:
+                schema.type = "integer";
+                break;
+            case ValidationTypes.IS_BOOLEAN:
+                schema.type = "boolean";
+                break;
+            case ValidationTypes.IS_ARRAY:
+                schema.type = "array";
+                break;
+            case ValidationTypes.IS_DATE:
+            case ValidationTypes.IS_DATE_STRING:
+            case ValidationTypes.IS_ISO8601:
+                schema.type = "string";
+                schema.format = "date-time";
+                break;
+            case ValidationTypes.IS_EMAIL:
+                schema.type = "string";
+                schema.format = "email";
+                break;
+            case ValidationTypes.IS_URL:
+                schema.type = "string";
+                schema.format = "uri";
+                break;
+            case ValidationTypes.IS_UUID:
+                schema.type = "string";
+                schema.format = "uuid";
+                break;
+            case ValidationTypes.IS_IN:
+                schema.enum = constraints[0];
+                break;
+            case ValidationTypes.IS_ENUM:
+                schema.enum = Object.keys(constraints[0]).map(key => constraints[0][key]);
+                break;
+            case ValidationTypes.EQUALS:
+                schema.enum = [constraints[0]];
+                break;
+            case ValidationTypes.MIN:
+                schema.minimum = constraints[0];
+                break;
+            case ValidationTypes.MAX:
+                schema.maximum = constraints[0];
+                break;
+            case ValidationTypes.IS_POSITIVE:
+                schema.exclusiveMinimum = 0;
+                break;
+            case ValidationTypes.IS_NEGATIVE:
+                schema.exclusiveMaximum = 0;
+                break;
+            case ValidationTypes.IS_NOT_EMPTY:
+                if (schema.type === "string") schema.minLength = 1;
+                break;
+            case ValidationTypes.MIN_LENGTH:
+                schema.minLength = constraints[0];
+                break;
+            case ValidationTypes.MAX_LENGTH:
+                schema.maxLength = constraints[0];
+                break;
+            case ValidationTypes.LENGTH:
+                schema.minLength = constraints[0];
+                if (constraints[1] !== undefined) schema.maxLength = constraints[1];
+                break;
+            case ValidationTypes.MATCHES:
+                schema.pattern = constraints[0] instanceof RegExp ? constraints[0].source : constraints[0];
+                break;
+            case ValidationTypes.ARRAY_NOT_EMPTY:
+                schema.minItems = 1;
+                break;
+            case ValidationTypes.ARRAY_MIN_SIZE:
+                schema.minItems = constraints[0];
+                break;
+            case ValidationTypes.ARRAY_MAX_SIZE:
+                schema.maxItems = constraints[0];
+                break;
+            case ValidationTypes.ARRAY_UNIQUE:
+                schema.uniqueItems = true;
+                break;
+        }
+    }
+
+    /**
+     * Checks if given type is a user class, and not a built-in type.
+     */
+    protected isClass(type: any): boolean {
+        return type instanceof Function
+            && type !== Object
+            && type !== Function
+            && type !== Promise
+            && [String, Number, Boolean, Date, Array].indexOf(type) === -1;
+    }
+
+}
@@ -0,0 +1,18 @@
+import {RpcError} from "./RpcError";
+
+/**
+ * Exception for -32003 RPC error, thrown when request is authorized, but hasn't required roles.
+ */
+export class AccessDeniedError extends RpcError {
+    name = "AccessDeniedError";
+    message = "Access denied";
+
+    constructor(message?: string) {
+        super(-32003);
+        Object.setPrototypeOf(this, AccessDeniedError.prototype);
+
+        if (message)
+            this.message = message;
+    }
+
+}
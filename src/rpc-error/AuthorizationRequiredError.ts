@@ -0,0 +1,18 @@
+import {RpcError} from "./RpcError";
+
+/**
+ * Exception for -32001 RPC error, thrown when request isn't authorized.
+ */
+export class AuthorizationRequiredError extends RpcError {
+    name = "AuthorizationRequiredError";
+    message = "Authorization required";
+
+    constructor(message?: string) {
+        super(-32001);
+        Object.setPrototypeOf(this, AuthorizationRequiredError.prototype);
+
+        if (message)
+            this.message = message;
+    }
+
+}
@@ -1,5 +1,22 @@
 import {RpcError} from "./RpcError";
 
+/**
+ * Describes a single param that haven't passed validation.
+ */
+export interface InvalidParam {
+
+    /**
+     * Path to the invalid property, for example "address.city" or "items.0.name".
+     */
+    path: string;
+
+    /**
+     * Constraints that failed validation with their error messages.
+     */
+    constraints: { [type: string]: string };
+
+}
+
 /**
  * Exception for -32602 RPC error.
  */
@@ -7,12 +24,19 @@ export class InvalidParamsError extends RpcError {
     name = "InvalidParamsError";
     message = "Invalid params";
 
-    constructor(message?: string) {
+    /**
+     * Params that haven't passed validation.
+     */
+    errors?: InvalidParam[];
+
+    constructor(message?: string, errors?: InvalidParam[]) {
         super(-32602);
         Object.setPrototypeOf(this, InvalidParamsError.prototype);
 
         if (message)
             this.message = message;
+        if (errors)
+            this.errors = errors;
     }
 
 }
\ No newline at end of file
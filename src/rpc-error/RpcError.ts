@@ -19,7 +19,12 @@ export class RpcError extends Error {
         if (message)
             this.message = message;
 
-        this.stack = new Error().stack;
+        // stack is captured, but formatted only once it's read, so creating errors (e.g. for unknown methods) is cheap
+        if ((Error as any).captureStackTrace) {
+            (Error as any).captureStackTrace(this, this.constructor);
+        } else {
+            this.stack = new Error().stack;
+        }
     }
 
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+import {TopicSubscription} from "./TopicSubscription";
+
+/**
+ * Keeps subscriptions of the connections and publishes events to them.
+ * Each endpoint of the application has its own publisher, get it with app.getPublisher(route) to push events from your services.
+ */
+export class SubscriptionPublisher {
+
+    // -------------------------------------------------------------------------
+    // Private properties
+    // -------------------------------------------------------------------------
+
+    /**
+     * All active subscriptions.
+     */
+    private subscriptions: TopicSubscription[] = [];
+
+    /**
+     * Connections which are watched to be closed.
+     */
+    private connections: any[] = [];
+
+    /**
+     * Id of the last created subscription.
+     */
+    private lastId: number = 0;
+
+    // -------------------------------------------------------------------------
+    // Public Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Subscribes connection to the given topic and returns subscription id.
+     * All connection's subscriptions are removed once connection is closed.
+     */
+    subscribe(topic: string, params: any, connection: any, send: (payload: any) => void): string {
+        const id = String(++this.lastId);
+        this.subscriptions.push({id, topic, params, connection, send});
+
+        if (this.connections.indexOf(connection) === -1 && connection.once instanceof Function) {
+            this.connections.push(connection);
+            connection.once("close", () => this.unsubscribeConnection(connection));
+        }
+
+        return id;
+    }
+
+    /**
+     * Removes subscription with the given id.
+     * Id can be given as a number too, e.g. 1 removes subscription "1".
+     * If connection is given, then only its own subscription can be removed.
+     * Returns false if there is no such subscription.
+     */
+    unsubscribe(id: string | number, connection?: any): boolean {
+        const subscription = this.subscriptions.find(subscription => {
+            return subscription.id === String(id) && (connection === undefined || subscription.connection === connection);
+        });
+        if (!subscription)
+            return false;
+
+        this.subscriptions.splice(this.subscriptions.indexOf(subscription), 1);
+        return true;
+    }
+
+    /**
+     * Removes all subscriptions of the given connection.
+     */
+    unsubscribeConnection(connection: any): void {
+        this.subscriptions = this.subscriptions.filter(subscription => subscription.connection !== connection);
+        this.connections = this.connections.filter(watched => watched !== connection);
+    }
+
+    /**
+     * Publishes event to all subscribers of the given topic.
+     * If scope is given, then only subscriptions which params have the same values of all scope properties are notified,
+     * for example scope {accountId: 1} notifies subscriptions made with params {accountId: 1}.
+     * Returns number of notified subscriptions.
+     */
+    publish(topic: string, data: any, scope?: { [key: string]: any }): number {
+        const subscriptions = this.subscriptions.filter(subscription => {
+            return subscription.topic === topic && this.isInScope(subscription.params, scope);
+        });
+
+        subscriptions.forEach(subscription => {
+            subscription.send({
+                jsonrpc: "2.0",
+                method: topic,
+                params: {
+                    subscription: subscription.id,
+                    result: data
+                }
+            });
+        });
+
+        return subscriptions.length;
+    }
+
+    /**
+     * Gets all active subscriptions, optionally only of the given topic.
+     */
+    getSubscriptions(topic?: string): TopicSubscription[] {
+        return this.subscriptions.filter(subscription => topic === undefined || subscription.topic === topic);
+    }
+
+    // -------------------------------------------------------------------------
+    // Protected Methods
+    // -------------------------------------------------------------------------
+
+    /**
+     * Checks if subscription params match the given scope.
+     */
+    protected isInScope(params: any, scope?: { [key: string]: any }): boolean {
+        if (!scope)
+            return true;
+
+        if (!(params instanceof Object))
+            return false;
+
+        return Object.keys(scope).every(key => params[key] === scope[key]);
+    }
+
+}
@@ -0,0 +1,31 @@
+/**
+ * Subscription of the connection to the topic.
+ */
+export interface TopicSubscription {
+
+    /**
+     * Unique subscription id.
+     */
+    id: string;
+
+    /**
+     * Topic name, e.g. full name of the subscription method.
+     */
+    topic: string;
+
+    /**
+     * Params given by the client on subscribe. Used to scope published events.
+     */
+    params: any;
+
+    /**
+     * Connection which subscribed to the topic.
+     */
+    connection: any;
+
+    /**
+     * Sends given JSON-RPC payload over the connection.
+     */
+    send: (payload: any) => void;
+
+}
@@ -0,0 +1,123 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {UseBefore} from "../../src/decorator/UseBefore";
+import {MiddlewareInterface} from "../../src/middleware/MiddlewareInterface";
+import {StreamDriver} from "../../src/driver/stream/StreamDriver";
+import {ParseError} from "../../src/rpc-error/ParseError";
+import {createExecutor, createRegistry} from "../../src/index";
+
+describe("application", () => {
+
+    class ThrowNullMiddleware implements MiddlewareInterface {
+        before(): any {
+            throw null;
+        }
+    }
+
+    @Controller("math")
+    class MathController {
+
+        @Method("add")
+        add(@Param(0) a: number, @Param(1) b: number) {
+            return a + b;
+        }
+
+        @Method("throwNull")
+        throwNull() {
+            throw null;
+        }
+
+        @Method("rejectUndefined")
+        rejectUndefined() {
+            return Promise.reject(undefined);
+        }
+
+        @Method("throwNumber")
+        throwNumber() {
+            throw 5;
+        }
+
+        @Method("throwString")
+        throwString() {
+            throw "Something went wrong";
+        }
+
+        @Method("guarded")
+        @UseBefore(ThrowNullMiddleware)
+        guarded() {
+            return true;
+        }
+    }
+
+    const app = createExecutor(new StreamDriver(new PassThrough(), new PassThrough()), {
+        registry: createRegistry([MathController]),
+        development: false
+    });
+
+    describe("handle", () => {
+
+        it("resolves to the response of a single request", async () => {
+            expect(await app.handle({ jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] })).to.eql({ jsonrpc: "2.0", id: 1, result: 3 });
+        });
+
+        it("resolves to the responses of the batch calls except notifications", async () => {
+            const responses = await app.handle([
+                { jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] },
+                { jsonrpc: "2.0", method: "math.add", params: [3, 4] },
+                { jsonrpc: "2.0", id: "b", method: "math.unknown" }
+            ]);
+            expect(responses).to.have.length(2);
+            expect(responses[0]).to.eql({ jsonrpc: "2.0", id: 1, result: 3 });
+            expect(responses[1].id).to.equal("b");
+            expect(responses[1].error.code).to.equal(-32601);
+        });
+
+        it("resolves to undefined if there is nothing to respond", async () => {
+            expect(await app.handle({ jsonrpc: "2.0", method: "math.add", params: [1, 2] })).to.equal(undefined);
+            expect(await app.handle([{ jsonrpc: "2.0", method: "math.add", params: [1, 2] }])).to.equal(undefined);
+        });
+
+        it("responds invalid request error to empty batch and invalid request objects", async () => {
+            const emptyBatch = await app.handle([]);
+            expect(emptyBatch.id).to.equal(null);
+            expect(emptyBatch.error.code).to.equal(-32600);
+
+            const responses = await app.handle([1, { jsonrpc: "1.0", id: 2, method: "math.add" }]);
+            expect(responses.map((response: any) => [response.id, response.error.code])).to.eql([[null, -32600], [2, -32600]]);
+        });
+
+        it("responds internal error to values thrown by methods which aren't errors", async () => {
+            for (const method of ["math.throwNull", "math.rejectUndefined", "math.throwNumber"]) {
+                const response = await app.handle({ jsonrpc: "2.0", id: 1, method });
+                expect(response.id).to.equal(1);
+                expect(response.error).to.include({ code: -32603, message: "Internal error" });
+            }
+        });
+
+        it("responds internal error with the message of the thrown string", async () => {
+            const response = await app.handle({ jsonrpc: "2.0", id: 1, method: "math.throwString" });
+            expect(response.error).to.include({ code: -32603, message: "Something went wrong" });
+        });
+
+        it("responds internal error to null thrown by a middleware", async () => {
+            const response = await app.handle({ jsonrpc: "2.0", id: 1, method: "math.guarded" });
+            expect(response.error.code).to.equal(-32603);
+        });
+
+    });
+
+    describe("handleError", () => {
+
+        it("resolves to the error response without id", async () => {
+            const response = await app.handleError(new ParseError());
+            expect(response.id).to.equal(null);
+            expect(response.error).to.include({ code: -32700, message: "Parse error" });
+        });
+
+    });
+
+});
@@ -0,0 +1,118 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Authorized} from "../../src/decorator/Authorized";
+import {Action} from "../../src/Action";
+import {AuthorizationRequiredError} from "../../src/rpc-error/AuthorizationRequiredError";
+import {createHttpServer, createRegistry} from "../../src/index";
+
+const http = require("http");
+
+describe("authorization", () => {
+
+    @Controller("orders")
+    @Authorized()
+    class OrderController {
+
+        @Method("list")
+        list(): any[] {
+            return [];
+        }
+
+        @Method("remove")
+        @Authorized(["admin"])
+        remove() {
+            return true;
+        }
+    }
+
+    const users: { [token: string]: { roles: string[], blocked?: boolean } } = {
+        "admin-token": { roles: ["admin"] },
+        "user-token": { roles: [] },
+        "blocked-token": { roles: ["admin"], blocked: true }
+    };
+
+    let server: any;
+    const checkedRoles: any[][] = [];
+
+    before(done => {
+        server = createHttpServer({
+            registry: createRegistry([OrderController]),
+            development: false,
+            authorizationHttpStatus: true,
+            authorizationChecker: (action: Action, roles: string[]) => {
+                checkedRoles.push(roles);
+                const user = users[action.request.headers["authorization"]];
+                if (!user)
+                    throw new AuthorizationRequiredError();
+
+                return !user.blocked && roles.every(role => user.roles.indexOf(role) !== -1);
+            }
+        }).listen(0, done);
+    });
+
+    after(done => server.close(done));
+
+    beforeEach(() => checkedRoles.splice(0));
+
+    function post(payload: any, token?: string): Promise<{ status: number, body: any }> {
+        return new Promise((resolve, reject) => {
+            const headers: any = { "Content-Type": "application/json" };
+            if (token)
+                headers["Authorization"] = token;
+
+            const request = http.request({ port: server.address().port, method: "POST", headers: headers }, (response: any) => {
+                let body = "";
+                response.on("data", (chunk: Buffer) => body += chunk.toString());
+                response.on("end", () => resolve({ status: response.statusCode, body: JSON.parse(body) }));
+            });
+            request.on("error", reject);
+            request.end(JSON.stringify(payload));
+        });
+    }
+
+    it("executes methods for authorized requests", async () => {
+        const response = await post({ jsonrpc: "2.0", id: 1, method: "orders.remove" }, "admin-token");
+        expect(response.status).to.equal(200);
+        expect(response.body.result).to.equal(true);
+        expect(checkedRoles).to.eql([["admin"]]);
+    });
+
+    it("responds AuthorizationRequiredError with 401 to requests without user", async () => {
+        const list = await post({ jsonrpc: "2.0", id: 1, method: "orders.list" });
+        expect(list.status).to.equal(401);
+        expect(list.body.error.code).to.equal(-32001);
+
+        const remove = await post({ jsonrpc: "2.0", id: 2, method: "orders.remove" });
+        expect(remove.status).to.equal(401);
+        expect(remove.body.error.code).to.equal(-32001);
+    });
+
+    it("responds AccessDeniedError with 403 to authorized requests without required roles", async () => {
+        const response = await post({ jsonrpc: "2.0", id: 1, method: "orders.remove" }, "user-token");
+        expect(response.status).to.equal(403);
+        expect(response.body.error.code).to.equal(-32003);
+    });
+
+    it("responds AuthorizationRequiredError, or AccessDeniedError if method requires roles, to denied requests", async () => {
+        const list = await post({ jsonrpc: "2.0", id: 1, method: "orders.list" }, "blocked-token");
+        expect(list.status).to.equal(401);
+        expect(list.body.error.code).to.equal(-32001);
+
+        const remove = await post({ jsonrpc: "2.0", id: 2, method: "orders.remove" }, "blocked-token");
+        expect(remove.status).to.equal(403);
+        expect(remove.body.error.code).to.equal(-32003);
+    });
+
+    it("responds 200 to batch with authorization errors", async () => {
+        const response = await post([
+            { jsonrpc: "2.0", id: 1, method: "orders.list" },
+            { jsonrpc: "2.0", id: 2, method: "orders.remove" }
+        ], "user-token");
+        expect(response.status).to.equal(200);
+        expect(response.body[0].result).to.eql([]);
+        expect(response.body[1].error.code).to.equal(-32003);
+    });
+
+});
@@ -0,0 +1,159 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {IsString} from "class-validator";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {Params} from "../../src/decorator/Params";
+import {Throws} from "../../src/decorator/Throws";
+import {ClientGenerator} from "../../src/codegen/ClientGenerator";
+import {RpcError} from "../../src/rpc-error/RpcError";
+import {createRegistry} from "../../src/index";
+
+const defaultEndpointClient = `/* tslint:disable */
+// This file is generated by rpc-controllers, do not edit it manually.
+
+/**
+ * Sends JSON-RPC request object to the server and resolves to the response object.
+ */
+export type RpcTransport = (request: { jsonrpc: "2.0", id: number, method: string, params?: any }) => Promise<any>;
+
+/**
+ * Error responded by the server.
+ */
+export class RpcClientError extends Error {
+    constructor(public code: number, message: string, public data?: any) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+export interface User {
+    email: string;
+}
+
+export class UserExistsError extends RpcClientError {
+    static readonly code = 1001;
+}
+
+const errorClasses: { [code: string]: typeof RpcClientError } = {
+    "1001": UserExistsError,
+};
+
+/**
+ * Creates client which calls server methods using the given transport.
+ * Rejects with the error class of the declared error code, or with RpcClientError for other errors.
+ */
+export function createClient(transport: RpcTransport) {
+    let id = 0;
+    const call = (method: string, params?: any): Promise<any> => {
+        const request: { jsonrpc: "2.0", id: number, method: string, params?: any } = { jsonrpc: "2.0", id: ++id, method: method };
+        if (params !== undefined)
+            request.params = params;
+
+        return transport(request).then(response => {
+            if (response.error) {
+                const ErrorClass = errorClasses[response.error.code] || RpcClientError;
+                throw new ErrorClass(response.error.code, response.error.message, response.error.data);
+            }
+            return response.result;
+        });
+    };
+
+    return {
+        math: {
+            add: (param0: number, param1?: number): Promise<number> => call("math.add", [param0, param1]),
+        },
+        users: {
+            save: (params: { email: string }): Promise<User> => call("users.save", params),
+        },
+    };
+}
+
+export type Client = ReturnType<typeof createClient>;
+`;
+
+describe("client generator", () => {
+
+    class User {
+
+        @IsString()
+        email: string;
+    }
+
+    @Controller("math")
+    class MathController {
+
+        @Method("add")
+        add(@Param(0, { required: true }) a: number, @Param(1) b: number): number {
+            return a + (b || 0);
+        }
+
+        @Method("add")
+        addAgain(@Param(0) a: string): string {
+            return a;
+        }
+    }
+
+    @Controller("users")
+    class UserController {
+
+        @Method("save")
+        @Throws(new RpcError(1001, "User exists"))
+        save(@Params() user: User): User {
+            return user;
+        }
+    }
+
+    @Controller("billing", { route: "/billing" })
+    class BillingController {
+
+        @Method("charge")
+        charge(@Param("amount", { required: true }) amount: number): string {
+            return `charged ${amount}`;
+        }
+    }
+
+    @Controller()
+    class RootController {
+
+        @Method("math")
+        math(): string {
+            return "math";
+        }
+    }
+
+    const registry = createRegistry();
+
+    @Controller("reports", { registry })
+    class ReportController {
+
+        @Method("build")
+        build(): string {
+            return "report";
+        }
+    }
+
+    const generator = new ClientGenerator();
+
+    it("generates client of the default endpoint methods", () => {
+        expect(generator.generate([MathController, UserController, BillingController])).to.equal(defaultEndpointClient);
+    });
+
+    it("generates client of the endpoint with the given route only", () => {
+        const source = generator.generate([MathController, BillingController], { route: "/billing" });
+        expect(source).to.contain(`billing: {\n            charge: (amount: number): Promise<string> => call("billing.charge", { amount: amount }),\n        },`);
+        expect(source).not.to.contain("math");
+    });
+
+    it("generates client of the controllers of the given registry", () => {
+        const source = generator.generate(undefined, { registry });
+        expect(source).to.contain(`reports: {\n            build: (): Promise<string> => call("reports.build"),\n        },`);
+    });
+
+    it("throws an error if method has the same name as a controller", () => {
+        expect(() => generator.generate([RootController, MathController]))
+            .to.throw(`Method "math" conflicts with namespace "math" of the method "math.add"`);
+    });
+
+});
@@ -0,0 +1,59 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {CurrentUser} from "../../src/decorator/CurrentUser";
+import {StreamDriver} from "../../src/driver/stream/StreamDriver";
+import {Action} from "../../src/Action";
+import {createExecutor, createRegistry} from "../../src/index";
+
+describe("current user", () => {
+
+    @Controller("users")
+    class UserController {
+
+        @Method("me")
+        me(@CurrentUser({ required: true }) user: any, @CurrentUser() sameUser: any) {
+            return user === sameUser ? user.name : null;
+        }
+    }
+
+    let checkedContexts: any[];
+
+    const app = createExecutor(new StreamDriver(new PassThrough(), new PassThrough()), {
+        registry: createRegistry([UserController]),
+        development: false,
+        currentUserChecker: (action: Action) => {
+            checkedContexts.push(action.context);
+            return action.context.token ? { name: action.context.token } : undefined;
+        }
+    });
+
+    beforeEach(() => checkedContexts = []);
+
+    it("resolves user once for all params of the method", async () => {
+        const response = await app.handle({ jsonrpc: "2.0", id: 1, method: "users.me" }, { context: { token: "john" } });
+        expect(response.result).to.equal("john");
+        expect(checkedContexts).to.have.length(1);
+    });
+
+    it("resolves user once for all calls of the batch", async () => {
+        const context = { token: "john" };
+        const responses = await app.handle([
+            { jsonrpc: "2.0", id: 1, method: "users.me" },
+            { jsonrpc: "2.0", id: 2, method: "users.me" },
+            { jsonrpc: "2.0", id: 3, method: "users.me" }
+        ], { context });
+        expect(responses.map((response: any) => response.result)).to.eql(["john", "john", "john"]);
+        expect(checkedContexts).to.eql([context]);
+    });
+
+    it("resolves user for every request", async () => {
+        await app.handle({ jsonrpc: "2.0", id: 1, method: "users.me" }, { context: { token: "john" } });
+        const response = await app.handle({ jsonrpc: "2.0", id: 2, method: "users.me" }, { context: {} });
+        expect(response.error.code).to.equal(-32001);
+        expect(checkedContexts).to.have.length(2);
+    });
+
+});
@@ -0,0 +1,136 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {IsInt, Max} from "class-validator";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {createParamDecorator} from "../../src/decorator/createParamDecorator";
+import {StreamDriver} from "../../src/driver/stream/StreamDriver";
+import {Action} from "../../src/Action";
+import {MethodMetadata} from "../../src/metadata/MethodMetadata";
+import {RpcError} from "../../src/rpc-error/RpcError";
+import {createExecutor, createRegistry} from "../../src/index";
+
+describe("custom params", () => {
+
+    const tenants: { [host: string]: { name: string } } = {
+        "acme.example.com": { name: "acme" }
+    };
+
+    class Paging {
+
+        @IsInt()
+        @Max(100)
+        limit: number;
+
+        get isFirstPage() {
+            return true;
+        }
+    }
+
+    function Locale() {
+        return createParamDecorator({
+            value: (action: Action) => action.request.headers["accept-language"] || "en"
+        });
+    }
+
+    function Tenant(options: { required?: boolean } = {}) {
+        return createParamDecorator({
+            required: options.required,
+            value: (action: Action) => new Promise(resolve => setTimeout(() => resolve(tenants[action.request.headers["host"]]), 5))
+        });
+    }
+
+    function MethodName() {
+        return createParamDecorator({
+            value: (action: Action, method: MethodMetadata) => `${method.target.name}.${method.method}`
+        });
+    }
+
+    function Banned() {
+        return createParamDecorator({
+            value: () => Promise.reject(new RpcError(1003, "Client is banned"))
+        });
+    }
+
+    function PagingHeader() {
+        return createParamDecorator({
+            value: (action: Action) => JSON.parse(action.request.headers["x-paging"])
+        });
+    }
+
+    @Controller("orders")
+    class OrderController {
+
+        @Method("locale")
+        locale(@Locale() locale: string) {
+            return locale;
+        }
+
+        @Method("tenant")
+        tenant(@Tenant() tenant: any) {
+            return tenant ? tenant.name : null;
+        }
+
+        @Method("list")
+        list(@Tenant({ required: true }) tenant: any) {
+            return `orders of ${tenant.name}`;
+        }
+
+        @Method("name")
+        name(@MethodName() name: string) {
+            return name;
+        }
+
+        @Method("banned")
+        banned(@Banned() banned: any) {
+            return "not banned";
+        }
+
+        @Method("page")
+        page(@PagingHeader() paging: Paging) {
+            return paging.isFirstPage ? paging.limit : 0;
+        }
+    }
+
+    const app = createExecutor(new StreamDriver(new PassThrough(), new PassThrough()), {
+        registry: createRegistry([OrderController]),
+        development: false
+    });
+
+    function call(method: string, headers: any = {}): Promise<any> {
+        return app.handle({ jsonrpc: "2.0", id: 1, method }, { request: { headers } });
+    }
+
+    it("injects value given by the decorator", async () => {
+        expect((await call("orders.locale", { "accept-language": "de" })).result).to.equal("de");
+        expect((await call("orders.locale")).result).to.equal("en");
+    });
+
+    it("injects resolved value of the promise", async () => {
+        expect((await call("orders.tenant", { host: "acme.example.com" })).result).to.equal("acme");
+        expect((await call("orders.tenant", { host: "unknown.example.com" })).result).to.equal(null);
+    });
+
+    it("responds InvalidParamsError if required value is empty", async () => {
+        expect((await call("orders.list", { host: "acme.example.com" })).result).to.equal("orders of acme");
+        expect((await call("orders.list", { host: "unknown.example.com" })).error).to.include({ code: -32602, message: "Invalid params" });
+    });
+
+    it("gives metadata of the executed method to the decorator", async () => {
+        expect((await call("orders.name")).result).to.equal("OrderController.name");
+    });
+
+    it("responds the error the value is rejected with", async () => {
+        expect((await call("orders.banned")).error).to.include({ code: 1003, message: "Client is banned" });
+    });
+
+    it("transforms value into the class of the param type and validates it", async () => {
+        expect((await call("orders.page", { "x-paging": `{"limit": 10}` })).result).to.equal(10);
+
+        const response = await call("orders.page", { "x-paging": `{"limit": 1000}` });
+        expect(response.error.code).to.equal(-32602);
+        expect(response.error.data.errors).to.eql([{ path: "limit", constraints: { max: "limit must not be greater than 100" } }]);
+    });
+
+});
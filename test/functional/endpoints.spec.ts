@@ -0,0 +1,75 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {createHttpServer, createRegistry} from "../../src/index";
+
+const http = require("http");
+
+describe("endpoints", () => {
+
+    @Controller("math")
+    class MathController {
+
+        @Method("add")
+        add(@Param(0) a: number, @Param(1) b: number) {
+            return a + b;
+        }
+    }
+
+    @Controller("billing", { route: "/billing" })
+    class BillingController {
+
+        @Method("charge")
+        charge(@Param("amount") amount: number) {
+            return `charged ${amount}`;
+        }
+    }
+
+    let server: any;
+
+    before(done => {
+        server = createHttpServer({
+            registry: createRegistry([MathController, BillingController]),
+            routePrefix: "/api",
+            development: false
+        }).listen(0, done);
+    });
+
+    after(done => server.close(done));
+
+    function post(path: string, payload: any): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const request = http.request({
+                port: server.address().port,
+                path: path,
+                method: "POST",
+                headers: { "Content-Type": "application/json" }
+            }, (response: any) => {
+                let body = "";
+                response.on("data", (chunk: Buffer) => body += chunk.toString());
+                response.on("end", () => resolve(JSON.parse(body)));
+            });
+            request.on("error", reject);
+            request.end(JSON.stringify(payload));
+        });
+    }
+
+    it("executes methods of the default endpoint on the root route", async () => {
+        expect((await post("/api", { jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] })).result).to.equal(3);
+        expect((await post("/api/", { jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] })).result).to.equal(3);
+    });
+
+    it("executes methods of the endpoint on its route only", async () => {
+        expect((await post("/api/billing", { jsonrpc: "2.0", id: 1, method: "billing.charge", params: { amount: 10 } })).result).to.equal("charged 10");
+        expect((await post("/api", { jsonrpc: "2.0", id: 1, method: "billing.charge", params: { amount: 10 } })).error.code).to.equal(-32601);
+    });
+
+    it("responds MethodNotFoundError to methods of the default endpoint called on other routes", async () => {
+        const payload = { jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] };
+        expect((await post("/api/billing", payload)).error.code).to.equal(-32601);
+        expect((await post("/api/other", payload)).error.code).to.equal(-32601);
+    });
+
+});
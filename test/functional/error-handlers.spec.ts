@@ -0,0 +1,150 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {RpcErrorHandler} from "../../src/decorator/RpcErrorHandler";
+import {UseErrorHandler} from "../../src/decorator/UseErrorHandler";
+import {ErrorHandlerInterface} from "../../src/error-handler/ErrorHandlerInterface";
+import {StreamDriver} from "../../src/driver/stream/StreamDriver";
+import {RpcError} from "../../src/rpc-error/RpcError";
+import {InvalidParamsError} from "../../src/rpc-error/InvalidParamsError";
+import {createExecutor, createRegistry} from "../../src/index";
+
+describe("error handlers", () => {
+
+    let handled: string[] = [];
+
+    @RpcErrorHandler()
+    class LoggingErrorHandler implements ErrorHandlerInterface {
+        error(error: any) {
+            handled.push("logging");
+        }
+    }
+
+    @RpcErrorHandler({ priority: 10 })
+    class DatabaseErrorHandler implements ErrorHandlerInterface {
+        error(error: any) {
+            handled.push("database");
+            if (error.code === "23505")
+                return new RpcError(1001, "Entity already exists");
+        }
+    }
+
+    class ReplacingErrorHandler implements ErrorHandlerInterface {
+        error(error: any) {
+            handled.push("replacing");
+            if (error.message === "replace")
+                return { code: 1002, message: "Replaced", data: { reason: "replace" } };
+        }
+    }
+
+    class ControllerErrorHandler implements ErrorHandlerInterface {
+        error(error: any) {
+            handled.push("controller");
+        }
+    }
+
+    @Controller("users")
+    @UseErrorHandler(ControllerErrorHandler)
+    class UserController {
+
+        @Method("create")
+        create() {
+            const error: any = new Error("duplicate key value violates unique constraint");
+            error.code = "23505";
+            throw error;
+        }
+
+        @Method("replace")
+        @UseErrorHandler(ReplacingErrorHandler)
+        replace() {
+            throw new Error("replace");
+        }
+
+        @Method("validate")
+        validate() {
+            throw new InvalidParamsError(undefined, [{ path: "name", constraints: { isNotEmpty: "name should not be empty" } }]);
+        }
+
+        @Method("fail")
+        @UseErrorHandler(ReplacingErrorHandler)
+        fail() {
+            throw new Error("Connection refused");
+        }
+    }
+
+    @Controller("health")
+    class HealthController {
+
+        @Method("fail")
+        fail() {
+            throw new Error("Connection refused");
+        }
+    }
+
+    const registry = createRegistry([UserController, HealthController, LoggingErrorHandler, DatabaseErrorHandler]);
+
+    function createApp(options: any = {}) {
+        return createExecutor(new StreamDriver(new PassThrough(), new PassThrough()), { registry, development: false, ...options });
+    }
+
+    function call(app: any, method: string): Promise<any> {
+        return app.handle({ jsonrpc: "2.0", id: 1, method });
+    }
+
+    beforeEach(() => handled = []);
+
+    it("executes method, controller, then global error handlers with higher priority first", async () => {
+        await call(createApp(), "users.fail");
+        expect(handled).to.eql(["replacing", "controller", "database", "logging"]);
+    });
+
+    it("executes error handlers of the controller for its methods only", async () => {
+        await call(createApp(), "health.fail");
+        expect(handled).to.eql(["database", "logging"]);
+    });
+
+    it("responds the error returned by the error handler instead of the thrown one", async () => {
+        const response = await call(createApp(), "users.create");
+        expect(response.error).to.include({ code: 1001, message: "Entity already exists" });
+        expect(handled).to.eql(["controller", "database", "logging"]);
+    });
+
+    it("responds the error object returned by the error handler and skips remaining handlers", async () => {
+        const response = await call(createApp(), "users.replace");
+        expect(response.error).to.eql({ code: 1002, message: "Replaced", data: { reason: "replace" } });
+        expect(handled).to.eql(["replacing"]);
+    });
+
+    it("uses only error handlers given in errorHandlers option", async () => {
+        await call(createApp({ errorHandlers: [LoggingErrorHandler] }), "health.fail");
+        expect(handled).to.eql(["logging"]);
+    });
+
+    describe("with defaultErrorHandler disabled", () => {
+
+        const app = createApp({ defaultErrorHandler: false, development: true });
+
+        it("responds RpcError with its data but without stack", async () => {
+            const response = await call(app, "users.validate");
+            expect(response.error).to.eql({
+                code: -32602,
+                message: "Invalid params",
+                data: { errors: [{ path: "name", constraints: { isNotEmpty: "name should not be empty" } }] }
+            });
+        });
+
+        it("responds other errors as internal error without details", async () => {
+            const response = await call(app, "users.fail");
+            expect(response.error).to.eql({ code: -32603, message: "Internal error" });
+        });
+
+        it("responds the error returned by the error handler", async () => {
+            const response = await call(app, "users.create");
+            expect(response.error).to.eql({ code: 1001, message: "Entity already exists" });
+        });
+
+    });
+
+});
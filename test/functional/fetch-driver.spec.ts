@@ -0,0 +1,114 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {createFetchHandler, createRegistry} from "../../src/index";
+
+declare const Request: any;
+declare const Response: any;
+
+describe("fetch driver", () => {
+
+    @Controller("math")
+    class MathController {
+
+        @Method("add")
+        add(@Param(0) a: number, @Param(1) b: number) {
+            return a + b;
+        }
+
+        @Method("fail")
+        fail() {
+            throw null;
+        }
+
+        @Method("big")
+        big() {
+            return (global as any).BigInt(1); // can't be serialized into JSON
+        }
+    }
+
+    @Controller("billing", { route: "/billing" })
+    class BillingController {
+
+        @Method("charge")
+        charge(@Param("amount") amount: number) {
+            return `charged ${amount}`;
+        }
+    }
+
+    let handler: (request: any) => Promise<any>;
+
+    before(function () {
+        // global fetch classes are available since node 18
+        if (typeof Request === "undefined" || typeof Response === "undefined")
+            return this.skip();
+
+        handler = createFetchHandler({
+            registry: createRegistry([MathController, BillingController]),
+            routePrefix: "/api",
+            development: false
+        });
+    });
+
+    function post(path: string, body: any): Promise<any> {
+        return handler(new Request(`http://localhost${path}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: typeof body === "string" ? body : JSON.stringify(body)
+        }));
+    }
+
+    it("responds JSON-RPC response to the POST request", async () => {
+        const response = await post("/api", { jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] });
+        expect(response.status).to.equal(200);
+        expect(response.headers.get("Content-Type")).to.contain("application/json");
+        expect(await response.json()).to.eql({ jsonrpc: "2.0", id: 1, result: 3 });
+    });
+
+    it("responds 405 with Allow header to other http methods", async () => {
+        const response = await handler(new Request("http://localhost/api", { method: "GET" }));
+        expect(response.status).to.equal(405);
+        expect(response.headers.get("Allow")).to.equal("POST");
+    });
+
+    it("responds 404 to requests outside of the route prefix", async () => {
+        const response = await post("/other", { jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] });
+        expect(response.status).to.equal(404);
+    });
+
+    it("responds 204 without body to notifications", async () => {
+        const response = await post("/api", { jsonrpc: "2.0", method: "math.add", params: [1, 2] });
+        expect(response.status).to.equal(204);
+        expect(await response.text()).to.equal("");
+    });
+
+    it("responds parse error to unparsable body", async () => {
+        const response = await post("/api", "{");
+        expect((await response.json()).error).to.include({ code: -32700, message: "Parse error" });
+    });
+
+    it("responds internal error without internal message to null thrown by the method", async () => {
+        const response = await post("/api", { jsonrpc: "2.0", id: 1, method: "math.fail" });
+        expect(response.status).to.equal(200);
+        expect((await response.json()).error).to.include({ code: -32603, message: "Internal error" });
+    });
+
+    it("resolves to internal error response if response can't be created", async () => {
+        const response = await post("/api", { jsonrpc: "2.0", id: 1, method: "math.big" });
+        expect((await response.json()).error).to.include({ code: -32603, message: "Internal error" });
+    });
+
+    it("executes methods of the endpoint the request is sent to", async () => {
+        const charged = await post("/api/billing", { jsonrpc: "2.0", id: 1, method: "billing.charge", params: { amount: 10 } });
+        expect((await charged.json()).result).to.equal("charged 10");
+
+        const notOnDefault = await post("/api", { jsonrpc: "2.0", id: 2, method: "billing.charge", params: { amount: 10 } });
+        expect((await notOnDefault.json()).error.code).to.equal(-32601);
+
+        const notOnBilling = await post("/api/billing", { jsonrpc: "2.0", id: 3, method: "math.add", params: [1, 2] });
+        expect((await notOnBilling.json()).error.code).to.equal(-32601);
+    });
+
+});
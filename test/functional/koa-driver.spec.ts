@@ -0,0 +1,100 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {createKoaServer, createRegistry} from "../../src/index";
+import {sendRequest} from "../test-utils";
+
+describe("koa driver", () => {
+
+    @Controller("math")
+    class MathController {
+
+        @Method("add")
+        add(@Param(0) a: number, @Param(1) b: number) {
+            return a + b;
+        }
+
+        @Method("fail")
+        fail() {
+            throw null;
+        }
+    }
+
+    let server: any;
+    let port: number;
+
+    before(done => {
+        server = createKoaServer({ registry: createRegistry([MathController]), bodyLimit: 1024, development: false }).listen(0, () => {
+            port = server.address().port;
+            done();
+        });
+    });
+
+    after(done => server.close(done));
+
+    function post(body: any) {
+        return sendRequest(port, "POST", "/", typeof body === "string" ? body : JSON.stringify(body));
+    }
+
+    it("responds JSON-RPC response to the POST request", async () => {
+        const response = await post({ jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] });
+        expect(response.status).to.equal(200);
+        expect(JSON.parse(response.body)).to.eql({ jsonrpc: "2.0", id: 1, result: 3 });
+    });
+
+    it("responds invalid request error to JSON values other than objects and arrays", async () => {
+        for (const body of ["5", "\"x\"", "null", "true"]) {
+            const response = await post(body);
+            expect(response.status).to.equal(200);
+            expect(JSON.parse(response.body).error.code).to.equal(-32600);
+        }
+    });
+
+    it("responds invalid request error to empty batch and invalid request objects", async () => {
+        expect(JSON.parse((await post([])).body).error.code).to.equal(-32600);
+        expect(JSON.parse((await post({ jsonrpc: "1.0", id: 1, method: "math.add" })).body).error.code).to.equal(-32600);
+        expect(JSON.parse((await post({ jsonrpc: "2.0", id: 1 })).body).error.code).to.equal(-32600);
+    });
+
+    it("responds array of responses to the batch without responses of notifications", async () => {
+        const response = await post([
+            { jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] },
+            { jsonrpc: "2.0", method: "math.add", params: [3, 4] },
+            { jsonrpc: "2.0", id: 2, method: "math.unknown" },
+            1
+        ]);
+        const responses = JSON.parse(response.body);
+        expect(responses).to.have.length(3);
+        expect(responses[0]).to.eql({ jsonrpc: "2.0", id: 1, result: 3 });
+        expect(responses[1].error.code).to.equal(-32601);
+        expect(responses[2].error.code).to.equal(-32600);
+    });
+
+    it("responds 204 without body to notifications", async () => {
+        for (const body of [{ jsonrpc: "2.0", method: "math.add", params: [1, 2] }, [{ jsonrpc: "2.0", method: "math.add", params: [1, 2] }]]) {
+            const response = await post(body);
+            expect(response.status).to.equal(204);
+            expect(response.body).to.equal("");
+        }
+    });
+
+    it("responds parse error to unparsable body", async () => {
+        const response = await post("{");
+        expect(JSON.parse(response.body).error).to.include({ code: -32700, message: "Parse error" });
+    });
+
+    it("responds internal error instead of parse error to null thrown by the method", async () => {
+        const response = await post({ jsonrpc: "2.0", id: 1, method: "math.fail" });
+        expect(response.status).to.equal(200);
+        expect(JSON.parse(response.body).error).to.include({ code: -32603, message: "Internal error" });
+    });
+
+    it("responds 413 with invalid request error to too large body", async () => {
+        const response = await post({ jsonrpc: "2.0", id: 1, method: "math.add", params: [new Array(2048).join("a"), 1] });
+        expect(response.status).to.equal(413);
+        expect(JSON.parse(response.body).error).to.include({ code: -32600, message: "Request body is larger than 1024 bytes" });
+    });
+
+});
@@ -0,0 +1,91 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {MethodMatch} from "../../src/decorator/MethodMatch";
+import {StreamDriver} from "../../src/driver/stream/StreamDriver";
+import {createExecutor, createRegistry} from "../../src/index";
+
+describe("method patterns", () => {
+
+    @Controller("report")
+    class ReportController {
+
+        @Method(/(\w+)\.(csv|pdf)/)
+        export(@MethodMatch() [name, format]: string[]) {
+            return `export ${name} as ${format}`;
+        }
+
+        @Method("*.csv")
+        exportCsv(@MethodMatch() [name]: string[]) {
+            return `export ${name} as csv table`;
+        }
+
+        @Method(/item(\d+)/g)
+        item(@MethodMatch() [id]: string[]) {
+            return Number(id);
+        }
+
+        @Method("*")
+        show(@MethodMatch() [name]: string[]) {
+            return `show ${name}`;
+        }
+
+        @Method("daily")
+        daily() {
+            return "daily";
+        }
+    }
+
+    @Controller()
+    class EventController {
+
+        @Method("on*")
+        on(@MethodMatch() [event]: string[]) {
+            return event;
+        }
+    }
+
+    const app = createExecutor(new StreamDriver(new PassThrough(), new PassThrough()), {
+        registry: createRegistry([ReportController, EventController]),
+        development: false
+    });
+
+    function call(method: string): Promise<any> {
+        return app.handle({ jsonrpc: "2.0", id: 1, method });
+    }
+
+    it("executes method with exact name before the matching patterns", async () => {
+        expect((await call("report.daily")).result).to.equal("daily");
+    });
+
+    it("executes method which wildcard name matches a single part of the name", async () => {
+        expect((await call("report.sales")).result).to.equal("show sales");
+        expect((await call("onClick")).result).to.equal("Click");
+    });
+
+    it("executes method which regexp name matches the name", async () => {
+        expect((await call("report.sales.pdf")).result).to.equal("export sales as pdf");
+    });
+
+    it("executes method registered first if many patterns match the name", async () => {
+        expect((await call("report.sales.csv")).result).to.equal("export sales as csv");
+    });
+
+    it("responds MethodNotFoundError if pattern doesn't match the whole name", async () => {
+        expect((await call("report.sales.xml")).error.code).to.equal(-32601);
+        expect((await call("report.sales.csv.bak")).error.code).to.equal(-32601);
+        expect((await call("sales.csv")).error.code).to.equal(-32601);
+    });
+
+    it("matches regexp with stateful flags on every call", async () => {
+        expect((await call("report.item1")).result).to.equal(1);
+        expect((await call("report.item2")).result).to.equal(2);
+    });
+
+    it("doesn't describe pattern methods in the OpenRPC document", () => {
+        expect(app.getOpenRpcDocument().methods.map(method => method.name)).to.eql(["report.daily"]);
+    });
+
+});
@@ -0,0 +1,77 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {UseBefore} from "../../src/decorator/UseBefore";
+import {UseAfter} from "../../src/decorator/UseAfter";
+import {MiddlewareInterface} from "../../src/middleware/MiddlewareInterface";
+import {StreamDriver} from "../../src/driver/stream/StreamDriver";
+import {RpcError} from "../../src/rpc-error/RpcError";
+import {createExecutor, createRegistry} from "../../src/index";
+
+describe("method middlewares", () => {
+
+    let calls: string[];
+
+    class CacheMiddleware implements MiddlewareInterface {
+        before(action: any, method: any, params: any[]) {
+            if (params[0] === "cached")
+                return "from cache";
+        }
+    }
+
+    class RateLimitMiddleware implements MiddlewareInterface {
+        before(action: any, method: any, params: any[]) {
+            if (params[0] === "limited")
+                return Promise.resolve(new RpcError(1429, "Too many requests"));
+        }
+    }
+
+    class UppercaseMiddleware implements MiddlewareInterface {
+        after(action: any, method: any, result: any) {
+            return typeof result === "string" ? result.toUpperCase() : undefined;
+        }
+    }
+
+    @Controller("text")
+    @UseBefore(CacheMiddleware, RateLimitMiddleware)
+    class TextController {
+
+        @Method("echo")
+        @UseAfter(UppercaseMiddleware)
+        echo(@Param(0) text: string) {
+            calls.push(text);
+            return text;
+        }
+    }
+
+    const app = createExecutor(new StreamDriver(new PassThrough(), new PassThrough()), {
+        registry: createRegistry([TextController]),
+        development: false
+    });
+
+    beforeEach(() => calls = []);
+
+    it("executes the method between before and after hooks", async () => {
+        const response = await app.handle({ jsonrpc: "2.0", id: 1, method: "text.echo", params: ["hello"] });
+        expect(response).to.eql({ jsonrpc: "2.0", id: 1, result: "HELLO" });
+        expect(calls).to.eql(["hello"]);
+    });
+
+    it("responds value returned by before hook instead of the method result", async () => {
+        const response = await app.handle({ jsonrpc: "2.0", id: 1, method: "text.echo", params: ["cached"] });
+        expect(response).to.eql({ jsonrpc: "2.0", id: 1, result: "FROM CACHE" });
+        expect(calls).to.eql([]);
+    });
+
+    it("responds rpc error returned by before hook as error", async () => {
+        const response = await app.handle({ jsonrpc: "2.0", id: 1, method: "text.echo", params: ["limited"] });
+        expect(response.id).to.equal(1);
+        expect(response.result).to.equal(undefined);
+        expect(response.error).to.include({ code: 1429, message: "Too many requests" });
+        expect(calls).to.eql([]);
+    });
+
+});
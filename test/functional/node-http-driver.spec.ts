@@ -0,0 +1,87 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {createHttpServer, createRegistry} from "../../src/index";
+import {sendRequest} from "../test-utils";
+
+describe("node http driver", () => {
+
+    @Controller("math")
+    class MathController {
+
+        @Method("add")
+        add(@Param(0) a: number, @Param(1) b: number) {
+            return a + b;
+        }
+
+        @Method("fail")
+        fail() {
+            throw null;
+        }
+    }
+
+    let server: any;
+    let port: number;
+
+    before(done => {
+        server = createHttpServer({
+            registry: createRegistry([MathController]),
+            routePrefix: "/api",
+            bodyLimit: 1024,
+            development: false
+        }).listen(0, () => {
+            port = server.address().port;
+            done();
+        });
+    });
+
+    after(done => server.close(done));
+
+    function post(body: any) {
+        return sendRequest(port, "POST", "/api", typeof body === "string" ? body : JSON.stringify(body));
+    }
+
+    it("responds JSON-RPC response to the POST request", async () => {
+        const response = await post({ jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] });
+        expect(response.status).to.equal(200);
+        expect(response.headers["content-type"]).to.contain("application/json");
+        expect(JSON.parse(response.body)).to.eql({ jsonrpc: "2.0", id: 1, result: 3 });
+    });
+
+    it("responds 405 with Allow header to other http methods", async () => {
+        const response = await sendRequest(port, "GET", "/api");
+        expect(response.status).to.equal(405);
+        expect(response.headers["allow"]).to.equal("POST");
+    });
+
+    it("responds 404 to requests outside of the route prefix", async () => {
+        const response = await sendRequest(port, "POST", "/other", "{}");
+        expect(response.status).to.equal(404);
+    });
+
+    it("responds 204 without body to notifications", async () => {
+        const response = await post({ jsonrpc: "2.0", method: "math.add", params: [1, 2] });
+        expect(response.status).to.equal(204);
+        expect(response.body).to.equal("");
+    });
+
+    it("responds parse error to unparsable body and invalid request error to non-object body", async () => {
+        expect(JSON.parse((await post("{")).body).error.code).to.equal(-32700);
+        expect(JSON.parse((await post("5")).body).error.code).to.equal(-32600);
+    });
+
+    it("responds 413 with invalid request error to too large body", async () => {
+        const response = await post({ jsonrpc: "2.0", id: 1, method: "math.add", params: [new Array(2048).join("a"), 1] });
+        expect(response.status).to.equal(413);
+        expect(JSON.parse(response.body).error).to.include({ code: -32600, message: "Request body is larger than 1024 bytes" });
+    });
+
+    it("responds internal error without internal message to null thrown by the method", async () => {
+        const response = await post({ jsonrpc: "2.0", id: 1, method: "math.fail" });
+        expect(response.status).to.equal(200);
+        expect(JSON.parse(response.body).error).to.include({ code: -32603, message: "Internal error" });
+    });
+
+});
@@ -0,0 +1,142 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {RequestId} from "../../src/decorator/RequestId";
+import {StreamDriver} from "../../src/driver/stream/StreamDriver";
+import {createExecutor, createRegistry} from "../../src/index";
+
+describe("params", () => {
+
+    @Controller("math")
+    class MathController {
+
+        @Method("subtract")
+        subtract(@Param(0, { required: true }) minuend: number, @Param(1, { required: true }) subtrahend: number, @Param(2) precision: number) {
+            return precision ? Number((minuend - subtrahend).toFixed(precision)) : minuend - subtrahend;
+        }
+
+        @Method("multiply")
+        multiply(@Param("a", { required: true }) a: number, @Param("b", { required: true }) b: number) {
+            return a * b;
+        }
+
+        @Method("add", { params: true })
+        add(a: number, b?: number) {
+            return a + (b || 0);
+        }
+
+        @Method("greet", { params: ["name", "greeting?"] })
+        greet(name: string, greeting: string) {
+            return `${greeting || "Hello"}, ${name}`;
+        }
+
+        @Method("tagged", { params: true })
+        tagged(@RequestId() id: any, tag: string) {
+            return `${id}:${tag}`;
+        }
+
+        @Method("divide")
+        divide(a: number, b: number) {
+            return a / b;
+        }
+
+        @Method("negate", { params: false })
+        negate(a: number) {
+            return -a;
+        }
+    }
+
+    const registry = createRegistry([MathController]);
+    const app = createExecutor(new StreamDriver(new PassThrough(), new PassThrough()), { registry, development: false });
+
+    function call(method: string, params?: any, executor: any = app): Promise<any> {
+        return executor.handle({ jsonrpc: "2.0", id: 1, method, params });
+    }
+
+    describe("positional", () => {
+
+        it("maps params array onto @Param arguments by their positions", async () => {
+            expect((await call("math.subtract", [5, 3])).result).to.equal(2);
+            expect((await call("math.subtract", [0.3, 0.1, 1])).result).to.equal(0.2);
+        });
+
+        it("responds InvalidParamsError to params array with too many params", async () => {
+            const response = await call("math.subtract", [5, 3, 1, 0]);
+            expect(response.error).to.include({ code: -32602, message: "Too many params, method takes at most 3" });
+        });
+
+        it("responds InvalidParamsError to params array without required params", async () => {
+            const response = await call("math.subtract", [5]);
+            expect(response.error).to.include({ code: -32602, message: "Not enough params, method takes at least 2" });
+        });
+
+    });
+
+    describe("named", () => {
+
+        it("responds InvalidParamsError which names the missing required param", async () => {
+            const response = await call("math.multiply", { a: 2 });
+            expect(response.error).to.eql({
+                code: -32602,
+                message: `Missing required param "b"`,
+                data: { errors: [{ path: "b", constraints: { isDefined: `Missing required param "b"` } }] }
+            });
+        });
+
+    });
+
+    describe("params option", () => {
+
+        it("maps params array and object onto the reflected arguments", async () => {
+            expect((await call("math.add", [1, 2])).result).to.equal(3);
+            expect((await call("math.add", { a: 1, b: 2 })).result).to.equal(3);
+        });
+
+        it("doesn't require reflected arguments", async () => {
+            expect((await call("math.add", [1])).result).to.equal(1);
+            expect((await call("math.add", { a: 1 })).result).to.equal(1);
+        });
+
+        it("responds InvalidParamsError to params array with more params than reflected arguments", async () => {
+            const response = await call("math.add", [1, 2, 3]);
+            expect(response.error).to.include({ code: -32602, message: "Too many params, method takes at most 2" });
+        });
+
+        it("requires declared names without question mark", async () => {
+            expect((await call("math.greet", ["Ann"])).result).to.equal("Hello, Ann");
+            expect((await call("math.greet", { name: "Ann", greeting: "Hi" })).result).to.equal("Hi, Ann");
+
+            const response = await call("math.greet", { greeting: "Hi" });
+            expect(response.error).to.include({ code: -32602, message: `Missing required param "name"` });
+        });
+
+        it("skips arguments marked with param decorators", async () => {
+            expect((await call("math.tagged", ["a"])).result).to.equal("1:a");
+            expect((await call("math.tagged", { tag: "a" })).result).to.equal("1:a");
+        });
+
+    });
+
+    describe("autoParams option", () => {
+
+        const autoApp = createExecutor(new StreamDriver(new PassThrough(), new PassThrough()), { registry, autoParams: true, development: false });
+
+        it("maps params onto arguments of methods without param decorators", async () => {
+            expect((await call("math.divide", [6, 3], autoApp)).result).to.equal(2);
+            expect((await call("math.divide", { a: 6, b: 3 }, autoApp)).result).to.equal(2);
+        });
+
+        it("doesn't map params of methods which disable it with params option", async () => {
+            expect((await call("math.negate", [1], autoApp)).result).to.be.NaN;
+        });
+
+        it("doesn't map params without autoParams option", async () => {
+            expect((await call("math.divide", [6, 3])).result).to.be.NaN;
+        });
+
+    });
+
+});
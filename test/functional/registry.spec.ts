@@ -0,0 +1,80 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {StreamDriver} from "../../src/driver/stream/StreamDriver";
+import {createExecutor, createRegistry} from "../../src/index";
+
+describe("registry", () => {
+
+    const publicRegistry = createRegistry();
+    const adminRegistry = createRegistry();
+
+    @Controller("users", { registry: publicRegistry })
+    class UserController {
+
+        @Method("get")
+        get(@Param("id") id: number) {
+            return { id };
+        }
+    }
+
+    @Controller("reports", { registry: adminRegistry })
+    class ReportController {
+
+        @Method("build")
+        build() {
+            return "report";
+        }
+    }
+
+    @Controller("health")
+    class HealthController {
+
+        @Method("check")
+        check() {
+            return "ok";
+        }
+    }
+
+    function createApp(options: any) {
+        return createExecutor(new StreamDriver(new PassThrough(), new PassThrough()), { development: false, ...options });
+    }
+
+    function call(app: any, method: string, params: any = []): Promise<any> {
+        return app.handle({ jsonrpc: "2.0", id: 1, method, params });
+    }
+
+    it("executes only methods of the registry in each application of the process", async () => {
+        publicRegistry.register([HealthController]);
+        adminRegistry.register([HealthController]);
+        const publicApp = createApp({ registry: publicRegistry });
+        const adminApp = createApp({ registry: adminRegistry });
+
+        expect((await call(publicApp, "users.get", { id: 1 })).result).to.eql({ id: 1 });
+        expect((await call(publicApp, "reports.build")).error.code).to.equal(-32601);
+        expect((await call(publicApp, "health.check")).result).to.equal("ok");
+
+        expect((await call(adminApp, "reports.build")).result).to.equal("report");
+        expect((await call(adminApp, "users.get", { id: 1 })).error.code).to.equal(-32601);
+        expect((await call(adminApp, "health.check")).result).to.equal("ok");
+    });
+
+    it("executes methods of the given controllers only", async () => {
+        const app = createApp({ registry: createRegistry([UserController, ReportController, HealthController]), controllers: [HealthController] });
+
+        expect((await call(app, "health.check")).result).to.equal("ok");
+        expect((await call(app, "users.get", { id: 1 })).error.code).to.equal(-32601);
+    });
+
+    it("doesn't register controllers bound to a registry globally", async () => {
+        const app = createApp({ controllers: [UserController, ReportController, HealthController] });
+
+        expect((await call(app, "health.check")).result).to.equal("ok");
+        expect((await call(app, "users.get", { id: 1 })).error.code).to.equal(-32601);
+        expect((await call(app, "reports.build")).error.code).to.equal(-32601);
+    });
+
+});
@@ -0,0 +1,113 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Req} from "../../src/decorator/Req";
+import {Res} from "../../src/decorator/Res";
+import {Header} from "../../src/decorator/Header";
+import {Cookie} from "../../src/decorator/Cookie";
+import {Cookies} from "../../src/decorator/Cookies";
+import {RemoteAddress} from "../../src/decorator/RemoteAddress";
+import {StreamDriver} from "../../src/driver/stream/StreamDriver";
+import {WebSocketDriver} from "../../src/driver/websocket/WebSocketDriver";
+import {createExecutor, createExpressServer, createHttpServer, createKoaServer, createRegistry} from "../../src/index";
+import {sendRequest} from "../test-utils";
+
+describe("request params", () => {
+
+    @Controller("request")
+    class RequestController {
+
+        @Method("info")
+        info(@Req() request: any, @Header("X-Tenant") tenant: string, @Cookie("session") session: string,
+             @Cookies() cookies: any, @RemoteAddress() remoteAddress: string) {
+            return { url: request.url, tenant, session, cookies, remoteAddress };
+        }
+
+        @Method("tenant")
+        tenant(@Header("X-Tenant", { required: true }) tenant: string) {
+            return tenant;
+        }
+    }
+
+    @Controller("response")
+    class ResponseController {
+
+        @Method("tag")
+        tag(@Res() response: any) {
+            if (response.set) {
+                response.set("X-Tag", "tagged"); // express and koa responses
+            } else {
+                response.setHeader("X-Tag", "tagged");
+            }
+            return "ok";
+        }
+    }
+
+    const registry = createRegistry([RequestController, ResponseController]);
+    const servers: { [name: string]: () => any } = {
+        "node http": () => createHttpServer({ registry, development: false }),
+        "express": () => createExpressServer({ registry, development: false }),
+        "koa": () => createKoaServer({ registry, development: false })
+    };
+
+    Object.keys(servers).forEach(name => {
+
+        describe(`with ${name} driver`, () => {
+
+            let server: any;
+            let port: number;
+
+            before(done => {
+                server = servers[name]().listen(0, () => {
+                    port = server.address().port;
+                    done();
+                });
+            });
+
+            after(done => server.close(done));
+
+            function post(payload: any, headers: any = {}) {
+                return sendRequest(port, "POST", "/", JSON.stringify(payload), headers);
+            }
+
+            it("injects request, its headers, cookies and remote address", async () => {
+                const response = await post({ jsonrpc: "2.0", id: 1, method: "request.info" }, {
+                    "X-Tenant": "acme",
+                    "Cookie": "session=abc; theme=dark"
+                });
+                const result = JSON.parse(response.body).result;
+                expect(result).to.include({ url: "/", tenant: "acme", session: "abc" });
+                expect(result.cookies).to.eql({ session: "abc", theme: "dark" });
+                expect(result.remoteAddress).to.contain("127.0.0.1");
+            });
+
+            it("responds InvalidParamsError which names the missing required header", async () => {
+                const response = await post({ jsonrpc: "2.0", id: 1, method: "request.tenant" });
+                expect(JSON.parse(response.body).error).to.include({ code: -32602, message: `Missing required header "X-Tenant"` });
+            });
+
+            it("injects response", async () => {
+                const response = await post({ jsonrpc: "2.0", id: 1, method: "response.tag" });
+                expect(response.headers["x-tag"]).to.equal("tagged");
+                expect(JSON.parse(response.body).result).to.equal("ok");
+            });
+
+        });
+
+    });
+
+    describe("with transport which doesn't support the param", () => {
+
+        it("throws an error on registration", () => {
+            expect(() => createExecutor(new StreamDriver(new PassThrough(), new PassThrough()), { registry: createRegistry([RequestController]) }))
+                .to.throw(/param of the RequestController.info method can't be injected by StreamDriver/);
+
+            expect(() => createExecutor(new WebSocketDriver(), { registry: createRegistry([ResponseController]) }))
+                .to.throw(`"response" param of the ResponseController.tag method can't be injected by WebSocketDriver.`);
+        });
+
+    });
+
+});
@@ -0,0 +1,267 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {RpcClient} from "../../src/client/RpcClient";
+import {RequestTimeoutError} from "../../src/client/RequestTimeoutError";
+import {ClientTransport} from "../../src/client/transport/ClientTransport";
+import {HttpTransport} from "../../src/client/transport/HttpTransport";
+import {WebSocketTransport} from "../../src/client/transport/WebSocketTransport";
+import {StreamTransport} from "../../src/client/transport/StreamTransport";
+import {MessageTransport} from "../../src/client/transport/MessageTransport";
+import {StreamDriver} from "../../src/driver/stream/StreamDriver";
+import {RpcError} from "../../src/rpc-error/RpcError";
+import {MethodNotFoundError} from "../../src/rpc-error/MethodNotFoundError";
+import {InvalidParamsError} from "../../src/rpc-error/InvalidParamsError";
+import {ParseError} from "../../src/rpc-error/ParseError";
+import {createExecutor, createHttpServer, createRegistry, createWebSocketServer} from "../../src/index";
+
+const http = require("http");
+
+describe("rpc client", () => {
+
+    @Controller("math")
+    class MathController {
+
+        @Method("add")
+        add(@Param(0) a: number, @Param(1) b: number) {
+            return a + b;
+        }
+
+        @Method("multiply")
+        multiply(@Param("a", { required: true }) a: number, @Param("b", { required: true }) b: number) {
+            return a * b;
+        }
+
+        @Method("slow")
+        slow() {
+            return new Promise(resolve => setTimeout(() => resolve("late"), 100));
+        }
+
+        @Method("fail")
+        fail() {
+            throw new RpcError(1002, "User already exists");
+        }
+    }
+
+    const registry = createRegistry([MathController]);
+    let httpServer: any;
+    let webSocketHttpServer: any;
+    let transports: { [name: string]: () => ClientTransport };
+
+    before(done => {
+        httpServer = createHttpServer({ registry, development: false }).listen(0, () => {
+            const webSocketServer = createWebSocketServer({ registry, development: false });
+            webSocketHttpServer = http.createServer();
+            webSocketHttpServer.on("upgrade", (request: any, socket: any, head: any) => {
+                webSocketServer.handleUpgrade(request, socket, head, (connection: any) => webSocketServer.emit("connection", connection, request));
+            });
+            webSocketHttpServer.listen(0, () => done());
+        });
+
+        transports = {
+            http: () => new HttpTransport(`http://localhost:${httpServer.address().port}`),
+            websocket: () => new WebSocketTransport(`ws://localhost:${webSocketHttpServer.address().port}`),
+            stream: () => {
+                const requests = new PassThrough();
+                const responses = new PassThrough();
+                createExecutor(new StreamDriver(requests, responses), { registry, development: false });
+                return new StreamTransport(responses, requests);
+            }
+        };
+    });
+
+    after(done => httpServer.close(() => webSocketHttpServer.close(done)));
+
+    ["http", "websocket", "stream"].forEach(name => {
+
+        describe(`with ${name} transport`, () => {
+
+            let client: RpcClient;
+            beforeEach(() => client = new RpcClient(transports[name]()));
+            afterEach(() => client.close());
+
+            it("resolves to the method result", async () => {
+                expect(await client.request("math.add", [1, 2])).to.equal(3);
+            });
+
+            it("resolves to undefined once notification is sent", async () => {
+                expect(await client.notify("math.add", [1, 2])).to.equal(undefined);
+            });
+
+            it("resolves batch calls to their results and errors in order", async () => {
+                const results = await client.batch([
+                    { method: "math.add", params: [1, 2] },
+                    { method: "math.unknown" },
+                    { method: "math.add", params: [3, 4], notification: true },
+                    { method: "math.multiply", params: { a: 2, b: 3 } }
+                ]);
+                expect(results[0]).to.equal(3);
+                expect(results[1]).to.be.instanceOf(MethodNotFoundError);
+                expect(results[2]).to.equal(undefined);
+                expect(results[3]).to.equal(6);
+            });
+
+            it("rejects with the error class of the responded error code", async () => {
+                const notFound = await client.request("math.unknown").catch(error => error);
+                expect(notFound).to.be.instanceOf(MethodNotFoundError);
+
+                const invalidParams = await client.request("math.multiply", { a: 1 }).catch(error => error);
+                expect(invalidParams).to.be.instanceOf(InvalidParamsError);
+
+                const custom = await client.request("math.fail").catch(error => error);
+                expect(custom).to.be.instanceOf(RpcError);
+                expect(custom.rpcCode).to.equal(1002);
+                expect(custom.message).to.equal("User already exists");
+            });
+
+        });
+
+    });
+
+    describe("proxy", () => {
+
+        let client: RpcClient;
+        beforeEach(() => client = new RpcClient(transports.http()));
+
+        it("sends arguments as positional params", async () => {
+            expect(await client.proxy<MathController>("math").add(1, 2)).to.equal(3);
+        });
+
+        it("sends arguments with the given names as params object", async () => {
+            const math = client.proxy<MathController>("math", { multiply: ["a", "b"] });
+            expect(await math.multiply(3, 4)).to.equal(12);
+        });
+
+        it("sends single object argument as params itself", async () => {
+            const math: any = client.proxy("math");
+            expect(await math.multiply({ a: 3, b: 5 })).to.equal(15);
+        });
+
+        it("rejects calls with more arguments than param names", async () => {
+            const math: any = client.proxy("math", { multiply: ["a", "b"] });
+            const error = await math.multiply(1, 2, 3).catch((error: any) => error);
+            expect(error).to.be.instanceOf(Error);
+            expect(error.message).to.contain("at most 2 params");
+        });
+
+    });
+
+    describe("auto-batching", () => {
+
+        it("sends calls made within the same tick as a single batch request", async () => {
+            const transport = transports.http();
+            const payloads: any[] = [];
+            const send = transport.send.bind(transport);
+            transport.send = (payload: any) => {
+                payloads.push(payload);
+                return send(payload);
+            };
+
+            const client = new RpcClient(transport, { batch: true });
+            const results = await Promise.all([
+                client.request("math.add", [1, 2]),
+                client.request("math.unknown").catch(error => error),
+                client.request("math.add", [3, 4])
+            ]);
+
+            expect(payloads).to.have.length(1);
+            expect(payloads[0]).to.have.length(3);
+            expect(results[0]).to.equal(3);
+            expect(results[1]).to.be.instanceOf(MethodNotFoundError);
+            expect(results[2]).to.equal(7);
+        });
+
+        it("sends a single call without batch", async () => {
+            const transport = transports.http();
+            const payloads: any[] = [];
+            const send = transport.send.bind(transport);
+            transport.send = (payload: any) => {
+                payloads.push(payload);
+                return send(payload);
+            };
+
+            expect(await new RpcClient(transport, { batch: true }).request("math.add", [1, 2])).to.equal(3);
+            expect(payloads[0]).to.not.be.instanceOf(Array);
+        });
+
+    });
+
+    describe("timeout", () => {
+
+        it("rejects with RequestTimeoutError if request isn't responded in time", async () => {
+            const client = new RpcClient(transports.http(), { timeout: 20 });
+            const error = await client.request("math.slow").catch(error => error);
+            expect(error).to.be.instanceOf(RequestTimeoutError);
+            expect(error.message).to.equal(`Request "math.slow" timed out after 20ms`);
+        });
+
+        it("stops waiting for the response of the timed out request on persistent connection", async () => {
+            const transport = transports.stream();
+            const client = new RpcClient(transport, { timeout: 20 });
+            const error = await client.batch([{ method: "math.slow" }, { method: "math.add", params: [1, 2] }]).catch(error => error);
+            expect(error).to.be.instanceOf(RequestTimeoutError);
+            expect((transport as any).pending.size).to.equal(0);
+
+            // late response is ignored, and following requests are still resolved
+            await new Promise(resolve => setTimeout(resolve, 150));
+            expect(await client.request("math.add", [1, 2])).to.equal(3);
+            client.close();
+        });
+
+    });
+
+    describe("message transport", () => {
+
+        class TestTransport extends MessageTransport {
+            written: any[] = [];
+
+            close() {
+            }
+
+            respond(payload: any) {
+                this.receive(JSON.stringify(payload));
+            }
+
+            protected write(payload: any) {
+                this.written.push(payload);
+            }
+        }
+
+        it("matches responses to requests by ids of the same type", async () => {
+            const transport = new TestTransport();
+            const numberResponse = transport.send({ jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] });
+            const stringResponse = transport.send({ jsonrpc: "2.0", id: "1", method: "math.add", params: [3, 4] });
+
+            transport.respond({ jsonrpc: "2.0", id: "1", result: 7 });
+            transport.respond({ jsonrpc: "2.0", id: 1, result: 3 });
+            expect(await stringResponse).to.eql({ jsonrpc: "2.0", id: "1", result: 7 });
+            expect(await numberResponse).to.eql({ jsonrpc: "2.0", id: 1, result: 3 });
+        });
+
+        it("rejects all calls of the batch responded with the error without id", async () => {
+            const transport = new TestTransport();
+            const client = new RpcClient(transport);
+            const results = client.batch([{ method: "math.add", params: [1, 2] }, { method: "math.add", params: [3, 4] }]);
+
+            transport.respond({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+            const errors = await results;
+            expect(errors).to.have.length(2);
+            errors.forEach(error => expect(error).to.be.instanceOf(ParseError));
+            expect((transport as any).pending.size).to.equal(0);
+        });
+
+        it("rejects the request responded with the error without id", async () => {
+            const transport = new TestTransport();
+            const client = new RpcClient(transport);
+            const result = client.request("math.add", [1, 2]).catch(error => error);
+
+            transport.respond({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+            expect(await result).to.be.instanceOf(ParseError);
+        });
+
+    });
+
+});
@@ -0,0 +1,130 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {NodeHttpDriver} from "../../src/driver/node/NodeHttpDriver";
+import {Action} from "../../src/Action";
+import {createExecutor, createRegistry} from "../../src/index";
+import {sendRequest} from "../test-utils";
+
+describe("runtime methods", () => {
+
+    @Controller("math")
+    class MathController {
+
+        @Method("add")
+        add(@Param(0) a: number, @Param(1) b: number) {
+            return a + b;
+        }
+    }
+
+    const driver = new NodeHttpDriver();
+    const app = createExecutor(driver, { registry: createRegistry([MathController]), development: false });
+    let server: any;
+
+    before(done => {
+        server = driver.app.listen(0, done);
+    });
+
+    after(done => server.close(done));
+
+    async function call(method: string, params?: any, path: string = "/"): Promise<any> {
+        const response = await sendRequest(server.address().port, "POST", path, JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }));
+        return JSON.parse(response.body);
+    }
+
+    describe("addMethod", () => {
+
+        it("adds method while the server is serving requests", async () => {
+            expect((await call("math.mul", [2, 3])).error.code).to.equal(-32601);
+
+            const method = app.addMethod("math.mul", (a: number, b: number) => a * b, { params: ["a", "b"] });
+            expect((await call("math.mul", [2, 3])).result).to.equal(6);
+            expect((await call("math.mul", { a: 2, b: 4 })).result).to.equal(8);
+            expect((await call("math.mul", { a: 2 })).error).to.include({ code: -32602, message: `Missing required param "b"` });
+            app.removeMethod(method);
+        });
+
+        it("passes the whole params and the action to the handler without param names", async () => {
+            const method = app.addMethod("echo", (params: any, action: Action) => ({ params, method: action.payload.method }));
+            expect((await call("echo", { text: "hi" })).result).to.eql({ params: { text: "hi" }, method: "echo" });
+            app.removeMethod(method);
+        });
+
+        it("adds method to the endpoint with the given route", async () => {
+            const method = app.addMethod("tenant.*", (params: any, action: Action) => action.payload.method, { route: "/tenants" });
+            expect((await call("tenant.list", undefined, "/tenants")).result).to.equal("tenant.list");
+            expect((await call("tenant.list")).error.code).to.equal(-32601);
+            app.removeMethod(method);
+        });
+
+        it("describes added method in the OpenRPC document", () => {
+            const method = app.addMethod("math.neg", (a: number) => -a, { params: ["a"] });
+            expect(app.getOpenRpcDocument().methods.map(method => method.name)).to.contain("math.neg");
+            app.removeMethod(method);
+        });
+
+    });
+
+    describe("replaceMethod", () => {
+
+        it("replaces method, and requests being executed finish with the previous one", async () => {
+            let release: () => void;
+            const slow = app.addMethod("math.slow", () => new Promise(resolve => release = () => resolve("previous")));
+            const pending = call("math.slow");
+            await new Promise(resolve => setTimeout(resolve, 20));
+
+            app.replaceMethod("math.slow", () => "replaced");
+            expect((await call("math.slow")).result).to.equal("replaced");
+            release();
+            expect((await pending).result).to.equal("previous");
+            expect(app.removeMethod("math.slow")).to.equal(true);
+            expect(app.removeMethod(slow)).to.equal(false);
+        });
+
+        it("replaces decorated method", async () => {
+            const replacement = app.replaceMethod("math.add", (a: number, b: number) => a + b + 1, { params: ["a", "b"] });
+            expect((await call("math.add", [1, 2])).result).to.equal(4);
+            app.removeMethod(replacement);
+            expect((await call("math.add", [1, 2])).error.code).to.equal(-32601);
+        });
+
+        it("adds method if there is no method to replace", async () => {
+            const method = app.replaceMethod("math.square", (a: number) => a * a, { params: ["a"], route: "/extra" });
+            expect((await call("math.square", [3], "/extra")).result).to.equal(9);
+            app.removeMethod(method);
+        });
+
+    });
+
+    describe("removeMethod", () => {
+
+        it("removes method by its name on the endpoint with the given route", async () => {
+            app.addMethod("report.build", () => "report", { route: "/reports" });
+            expect(app.removeMethod("report.build")).to.equal(false);
+            expect((await call("report.build", undefined, "/reports")).result).to.equal("report");
+
+            expect(app.removeMethod("report.build", "/reports")).to.equal(true);
+            expect((await call("report.build", undefined, "/reports")).error.code).to.equal(-32601);
+        });
+
+        it("executes next method with the same name once the first one is removed", async () => {
+            const first = app.addMethod("math.max", (a: number, b: number) => Math.max(a, b), { params: ["a", "b"] });
+            const second = app.addMethod("math.max", () => "second");
+            expect((await call("math.max", [1, 2])).result).to.equal(2);
+
+            app.removeMethod(first);
+            expect((await call("math.max", [1, 2])).result).to.equal("second");
+            app.removeMethod(second);
+            expect((await call("math.max", [1, 2])).error.code).to.equal(-32601);
+        });
+
+        it("returns false if there is no such method", () => {
+            expect(app.removeMethod("math.unknown")).to.equal(false);
+            expect(app.removeMethod("math.unknown", "/unknown")).to.equal(false);
+        });
+
+    });
+
+});
@@ -0,0 +1,87 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {StreamDriver, StreamFraming} from "../../src/driver/stream/StreamDriver";
+import {createExecutor, createRegistry} from "../../src/index";
+
+describe("stream driver", () => {
+
+    @Controller("text")
+    class TextController {
+
+        @Method("echo")
+        echo(@Param(0) text: string) {
+            return text;
+        }
+    }
+
+    function createStreams(framing: StreamFraming) {
+        const input = new PassThrough();
+        const output = new PassThrough();
+        createExecutor(new StreamDriver(input, output, framing), { registry: createRegistry([TextController]) });
+
+        let written = "";
+        output.on("data", (chunk: Buffer) => written += chunk.toString("utf8"));
+        const read = () => new Promise<string>(resolve => setTimeout(() => resolve(written), 20));
+        return { input, read };
+    }
+
+    describe("with content-length framing", () => {
+
+        it("reads messages split into chunks and writes responses with byte length", async () => {
+            const { input, read } = createStreams("content-length");
+            const message = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "text.echo", params: ["привет"] });
+            const framed = `Content-Length: ${Buffer.byteLength(message)}\r\n\r\n${message}`;
+            input.write(framed.substr(0, 10));
+            input.write(framed.substr(10));
+
+            const response = JSON.stringify({ jsonrpc: "2.0", id: 1, result: "привет" });
+            expect(await read()).to.equal(`Content-Length: ${Buffer.byteLength(response)}\r\n\r\n${response}`);
+        });
+
+        it("reads multiple messages from a single chunk", async () => {
+            const { input, read } = createStreams("content-length");
+            const messages = [1, 2].map(id => JSON.stringify({ jsonrpc: "2.0", id: id, method: "text.echo", params: ["a"] }));
+            input.write(messages.map(message => `Content-Length: ${message.length}\r\n\r\n${message}`).join(""));
+
+            expect((await read()).match(/Content-Length: \d+\r\n\r\n/g)).to.have.length(2);
+        });
+
+        it("responds parse error to the message without content length", async () => {
+            const { input, read } = createStreams("content-length");
+            input.write(`Content-Type: application/json\r\n\r\n`);
+
+            const written = await read();
+            expect(JSON.parse(written.substr(written.indexOf("\r\n\r\n") + 4)).error.code).to.equal(-32700);
+        });
+
+    });
+
+    describe("with newline framing", () => {
+
+        it("reads newline delimited messages and writes responses on separate lines", async () => {
+            const { input, read } = createStreams("newline");
+            input.write(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "text.echo", params: ["a"] }) + "\r\n\n");
+            input.write(JSON.stringify({ jsonrpc: "2.0", id: 2, method: "text.echo", params: ["b"] }).substr(0, 5));
+            input.write(JSON.stringify({ jsonrpc: "2.0", id: 2, method: "text.echo", params: ["b"] }).substr(5) + "\n");
+
+            expect(await read()).to.equal([
+                JSON.stringify({ jsonrpc: "2.0", id: 1, result: "a" }),
+                JSON.stringify({ jsonrpc: "2.0", id: 2, result: "b" }),
+                ""
+            ].join("\n"));
+        });
+
+        it("doesn't write anything for notifications", async () => {
+            const { input, read } = createStreams("newline");
+            input.write(JSON.stringify({ jsonrpc: "2.0", method: "text.echo", params: ["a"] }) + "\n");
+
+            expect(await read()).to.equal("");
+        });
+
+    });
+
+});
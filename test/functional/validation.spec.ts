@@ -0,0 +1,126 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {PassThrough} from "stream";
+import {Type} from "class-transformer";
+import {IsEmail, IsNotEmpty, ValidateNested} from "class-validator";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {Params} from "../../src/decorator/Params";
+import {StreamDriver} from "../../src/driver/stream/StreamDriver";
+import {createExecutor, createRegistry} from "../../src/index";
+
+describe("validation", () => {
+
+    class Address {
+
+        @IsNotEmpty()
+        city: string;
+    }
+
+    class Item {
+
+        @IsNotEmpty()
+        name: string;
+    }
+
+    class User {
+
+        @IsEmail()
+        email: string;
+
+        @ValidateNested()
+        @Type(() => Address)
+        address: Address;
+
+        @ValidateNested()
+        @Type(() => Item)
+        items: Item[];
+    }
+
+    @Controller("users")
+    class UserController {
+
+        @Method("save")
+        save(@Params() user: User) {
+            return user instanceof User;
+        }
+
+        @Method("update")
+        update(@Param("user") user: User) {
+            return user instanceof User;
+        }
+
+        @Method("updateAt")
+        updateAt(@Param(0) user: User) {
+            return user instanceof User;
+        }
+
+        @Method("import")
+        import(@Params({ validate: false }) user: User) {
+            return user instanceof User;
+        }
+
+        @Method("draft")
+        draft(@Params({ validate: { skipMissingProperties: true } }) user: User) {
+            return user instanceof User;
+        }
+    }
+
+    const registry = createRegistry([UserController]);
+    const validUser = { email: "john@example.com", address: { city: "Berlin" }, items: [{ name: "book" }] };
+    const invalidUser = { email: "john", address: { city: "" }, items: [{ name: "book" }, { name: "" }] };
+
+    function createApp(options: any = {}) {
+        return createExecutor(new StreamDriver(new PassThrough(), new PassThrough()), { registry, development: false, ...options });
+    }
+
+    function call(app: any, method: string, params: any): Promise<any> {
+        return app.handle({ jsonrpc: "2.0", id: 1, method, params });
+    }
+
+    const app = createApp();
+
+    it("executes method with valid params transformed into class", async () => {
+        expect((await call(app, "users.save", validUser)).result).to.equal(true);
+    });
+
+    it("responds InvalidParamsError with paths of all invalid nested properties", async () => {
+        const response = await call(app, "users.save", invalidUser);
+        expect(response.error).to.eql({
+            code: -32602,
+            message: "Invalid params",
+            data: {
+                errors: [
+                    { path: "email", constraints: { isEmail: "email must be an email" } },
+                    { path: "address.city", constraints: { isNotEmpty: "city should not be empty" } },
+                    { path: "items.1.name", constraints: { isNotEmpty: "name should not be empty" } }
+                ]
+            }
+        });
+    });
+
+    it("prefixes paths with the name or position of the param", async () => {
+        const named = await call(app, "users.update", { user: invalidUser });
+        expect(named.error.data.errors.map((error: any) => error.path)).to.eql(["user.email", "user.address.city", "user.items.1.name"]);
+
+        const positional = await call(app, "users.updateAt", [invalidUser]);
+        expect(positional.error.data.errors.map((error: any) => error.path)).to.eql(["0.email", "0.address.city", "0.items.1.name"]);
+    });
+
+    it("doesn't validate param with validate option disabled", async () => {
+        expect((await call(app, "users.import", invalidUser)).result).to.equal(true);
+    });
+
+    it("validates param with the class-validator options of the param", async () => {
+        expect((await call(app, "users.draft", { address: { city: "Berlin" } })).result).to.equal(true);
+        expect((await call(app, "users.draft", { email: "john" })).error.data.errors).to.eql([
+            { path: "email", constraints: { isEmail: "email must be an email" } }
+        ]);
+    });
+
+    it("doesn't validate params with validation option disabled", async () => {
+        expect((await call(createApp({ validation: false }), "users.save", invalidUser)).result).to.equal(true);
+    });
+
+});
@@ -0,0 +1,164 @@
+import "reflect-metadata";
+import {expect} from "chai";
+import {Controller} from "../../src/decorator/Controller";
+import {Method} from "../../src/decorator/Method";
+import {Param} from "../../src/decorator/Param";
+import {Subscription} from "../../src/decorator/Subscription";
+import {WebSocketDriver} from "../../src/driver/websocket/WebSocketDriver";
+import {createExecutor, createRegistry} from "../../src/index";
+
+const http = require("http");
+const WebSocket = require("ws");
+
+describe("websocket driver", () => {
+
+    @Controller("math")
+    class MathController {
+
+        @Method("add")
+        add(@Param(0) a: number, @Param(1) b: number) {
+            return a + b;
+        }
+    }
+
+    @Controller("orders")
+    class OrderController {
+
+        @Subscription("updated")
+        updated(@Param("accountId") accountId: number) {
+        }
+    }
+
+    @Controller("orders", { route: "/admin" })
+    class AdminOrderController {
+
+        @Subscription("updated")
+        updated() {
+        }
+    }
+
+    let server: any;
+    let url: string;
+    const driver = new WebSocketDriver();
+    const app = createExecutor(driver, { registry: createRegistry([MathController, OrderController, AdminOrderController]) });
+    const publisher = app.getPublisher();
+
+    before(done => {
+        const webSocketServer = driver.app;
+        server = http.createServer();
+        server.on("upgrade", (request: any, socket: any, head: any) => {
+            webSocketServer.handleUpgrade(request, socket, head, (connection: any) => webSocketServer.emit("connection", connection, request));
+        });
+        server.listen(0, () => {
+            url = `ws://localhost:${server.address().port}`;
+            done();
+        });
+    });
+
+    after(done => server.close(done));
+
+    function connect(path: string = ""): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(url + path);
+            socket.once("open", () => resolve(socket));
+            socket.once("error", reject);
+        });
+    }
+
+    function receive(socket: any): Promise<any> {
+        return new Promise(resolve => socket.once("message", (data: any) => resolve(JSON.parse(data.toString()))));
+    }
+
+    function call(socket: any, payload: any): Promise<any> {
+        const response = receive(socket);
+        socket.send(JSON.stringify(payload));
+        return response;
+    }
+
+    function close(socket: any): Promise<void> {
+        return new Promise<void>(resolve => {
+            socket.once("close", () => resolve());
+            socket.close();
+        });
+    }
+
+    it("executes requests sent over the upgraded connection", async () => {
+        const socket = await connect();
+        const response = await call(socket, { jsonrpc: "2.0", id: 1, method: "math.add", params: [1, 2] });
+        expect(response).to.eql({ jsonrpc: "2.0", id: 1, result: 3 });
+        await close(socket);
+    });
+
+    it("responds errors to invalid requests and unparsable messages", async () => {
+        const socket = await connect();
+        const response = await call(socket, "{");
+        expect(response.error.code).to.equal(-32600);
+
+        const parseResponse = receive(socket);
+        socket.send("{");
+        expect((await parseResponse).error.code).to.equal(-32700);
+        await close(socket);
+    });
+
+    it("pushes events to subscribers until they unsubscribe with rpc.off", async () => {
+        const socket = await connect();
+        const subscribed = await call(socket, { jsonrpc: "2.0", id: 1, method: "rpc.on", params: { topic: "orders.updated", params: { accountId: 1 } } });
+        const subscription = subscribed.result;
+        expect(subscription).to.be.a("string");
+
+        const notification = receive(socket);
+        expect(publisher.publish("orders.updated", { id: 5 }, { accountId: 1 })).to.equal(1);
+        expect(await notification).to.eql({
+            jsonrpc: "2.0",
+            method: "orders.updated",
+            params: { subscription: subscription, result: { id: 5 } }
+        });
+        expect(publisher.publish("orders.updated", { id: 6 }, { accountId: 2 })).to.equal(0);
+
+        const unsubscribed = await call(socket, { jsonrpc: "2.0", id: 2, method: "rpc.off", params: { subscription: subscription } });
+        expect(unsubscribed.result).to.equal(true);
+        expect(publisher.publish("orders.updated", { id: 7 })).to.equal(0);
+        await close(socket);
+    });
+
+    it("subscribes with positional params and unsubscribes by numeric subscription id", async () => {
+        const socket = await connect();
+        const subscribed = await call(socket, { jsonrpc: "2.0", id: 1, method: "rpc.on", params: ["orders.updated", { accountId: 4 }] });
+        expect(publisher.getSubscriptions("orders.updated")).to.have.length(1);
+        expect(publisher.getSubscriptions("orders.updated")[0].params).to.eql({ accountId: 4 });
+
+        const unsubscribed = await call(socket, { jsonrpc: "2.0", id: 2, method: "rpc.off", params: [Number(subscribed.result)] });
+        expect(unsubscribed.result).to.equal(true);
+        expect(publisher.getSubscriptions("orders.updated")).to.have.length(0);
+        await close(socket);
+    });
+
+    it("publishes events to subscribers of the endpoint only", async () => {
+        const socket = await connect("/admin");
+        await call(socket, { jsonrpc: "2.0", id: 1, method: "rpc.on", params: { topic: "orders.updated" } });
+        expect(publisher.publish("orders.updated", { id: 8 })).to.equal(0);
+
+        const notification = receive(socket);
+        expect(app.getPublisher("/admin").publish("orders.updated", { id: 8 })).to.equal(1);
+        expect((await notification).params.result).to.eql({ id: 8 });
+        await close(socket);
+    });
+
+    it("rejects subscriptions to unknown topics", async () => {
+        const socket = await connect();
+        const response = await call(socket, { jsonrpc: "2.0", id: 1, method: "rpc.on", params: { topic: "orders.deleted" } });
+        expect(response.error.code).to.equal(-32602);
+        await close(socket);
+    });
+
+    it("removes subscriptions of the connection once it's closed", async () => {
+        const socket = await connect();
+        await call(socket, { jsonrpc: "2.0", id: 1, method: "rpc.on", params: { topic: "orders.updated", params: { accountId: 3 } } });
+        expect(publisher.getSubscriptions("orders.updated")).to.have.length(1);
+
+        await close(socket);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(publisher.getSubscriptions("orders.updated")).to.have.length(0);
+    });
+
+});
@@ -1,4 +1,4 @@
-const jayson = require("jayson/promise");
+import {HttpTransport, RpcClient} from "../src";
 
 export function assertRequest(ports: number[], method: string, params: Array<any> | object): void {
     const args = arguments.length;
@@ -7,7 +7,7 @@ export function assertRequest(ports: number[], method: string, params: Array<any
 
         it("asserting port " + port, async () => {
             let unhandledRejection: Error = undefined;
-            const rpcClient = jayson.client.http({port});
+            const rpcClient = new RpcClient(new HttpTransport(`http://localhost:${port}`));
             const captureRejection = (e: Error) => {
                 unhandledRejection = e;
             };
@@ -37,4 +37,29 @@ export function assertRequest(ports: number[], method: string, params: Array<any
 
     });
 
-}
\ No newline at end of file
+}
+export interface RawResponse {
+    status: number;
+    headers: { [name: string]: string };
+    body: string;
+}
+
+/**
+ * Sends raw http request to the server listening on the given port and resolves to the response with its body as text.
+ */
+export function sendRequest(port: number, method: string, path: string, body?: string, headers: { [name: string]: string } = {}): Promise<RawResponse> {
+    return new Promise((resolve, reject) => {
+        const request = require("http").request({
+            port,
+            method,
+            path,
+            headers: { "Content-Type": "application/json", ...headers }
+        }, (response: any) => {
+            let responseBody = "";
+            response.on("data", (chunk: Buffer) => responseBody += chunk.toString("utf8"));
+            response.on("end", () => resolve({ status: response.statusCode, headers: response.headers, body: responseBody }));
+        });
+        request.on("error", reject);
+        request.end(body);
+    });
+}